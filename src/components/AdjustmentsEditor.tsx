@@ -0,0 +1,132 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { createId, type AdjustmentTiming, type InvoiceAdjustment, type InvoiceData } from '@/lib/invoice';
+
+type AdjustmentSettings = Pick<InvoiceData, 'adjustments' | 'lineDiscountTiming'>;
+
+interface AdjustmentsEditorProps extends AdjustmentSettings {
+  onChange: (changes: Partial<AdjustmentSettings>) => void;
+}
+
+const AdjustmentsEditor: React.FC<AdjustmentsEditorProps> = ({ adjustments, lineDiscountTiming, onChange }) => {
+  const addAdjustment = (kind: InvoiceAdjustment['kind']) => {
+    const adjustment: InvoiceAdjustment = {
+      id: createId(),
+      label: kind === 'discount' ? 'Discount' : 'Surcharge',
+      kind,
+      type: kind === 'discount' ? 'percent' : 'fixed',
+      value: 0,
+      timing: 'before-tax'
+    };
+    onChange({ adjustments: [...adjustments, adjustment] });
+  };
+
+  const updateAdjustment = (id: string, changes: Partial<InvoiceAdjustment>) => {
+    onChange({
+      adjustments: adjustments.map(adjustment => adjustment.id === id ? { ...adjustment, ...changes } : adjustment)
+    });
+  };
+
+  const removeAdjustment = (id: string) => {
+    onChange({ adjustments: adjustments.filter(adjustment => adjustment.id !== id) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-lg font-semibold">Discounts & Surcharges</Label>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => addAdjustment('discount')} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Discount
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => addAdjustment('surcharge')} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Surcharge
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {adjustments.map((adjustment) => (
+          <div key={adjustment.id} className="grid grid-cols-12 gap-2 items-end">
+            <div className="col-span-4">
+              <Label className="text-sm">{adjustment.kind === 'discount' ? 'Discount' : 'Surcharge'}</Label>
+              <Input
+                value={adjustment.label}
+                onChange={(e) => updateAdjustment(adjustment.id, { label: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2">
+              <Label className="text-sm">Type</Label>
+              <Select
+                value={adjustment.type}
+                onValueChange={(value: InvoiceAdjustment['type']) => updateAdjustment(adjustment.id, { type: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">%</SelectItem>
+                  <SelectItem value="fixed">Fixed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2">
+              <Label className="text-sm">Value</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={adjustment.value}
+                onChange={(e) => updateAdjustment(adjustment.id, { value: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="col-span-3">
+              <Label className="text-sm">Applied</Label>
+              <Select
+                value={adjustment.timing}
+                onValueChange={(value: AdjustmentTiming) => updateAdjustment(adjustment.id, { timing: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="before-tax">Before tax</SelectItem>
+                  <SelectItem value="after-tax">After tax</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-1">
+              <Button size="sm" variant="ghost" onClick={() => removeAdjustment(adjustment.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <Label htmlFor="line-discount-timing">Line discounts applied</Label>
+        <Select
+          value={lineDiscountTiming}
+          onValueChange={(value: AdjustmentTiming) => onChange({ lineDiscountTiming: value })}
+        >
+          <SelectTrigger id="line-discount-timing" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="before-tax">Before tax</SelectItem>
+            <SelectItem value="after-tax">After tax</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentsEditor;
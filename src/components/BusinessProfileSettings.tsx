@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Building2, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  EMPTY_BUSINESS_PROFILE,
+  LOGO_TYPES,
+  MAX_LOGO_BYTES,
+  type BusinessProfile
+} from '@/lib/business-profile';
+import { getSetting, saveSetting } from '@/lib/settings';
+
+interface BusinessProfileSettingsProps {
+  onSaved: (profile: BusinessProfile) => void;
+}
+
+type TextField = Exclude<keyof BusinessProfile, 'logo'>;
+
+const FIELDS: { key: TextField; label: string; placeholder?: string }[] = [
+  { key: 'legalName', label: 'Legal Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'contactName', label: 'Contact Person' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'countryCode', label: 'Country Code', placeholder: 'e.g. DE' },
+  { key: 'endpointId', label: 'Peppol Participant ID', placeholder: 'e.g. 0088:7300010000001; defaults to the email' },
+  { key: 'taxId', label: 'Tax / VAT ID', placeholder: 'e.g. DE123456789' },
+  { key: 'registrationNumber', label: 'Registration Number', placeholder: 'e.g. HRB 12345' },
+  { key: 'fiscalRegime', label: 'Fiscal Regime (Italy)', placeholder: 'e.g. RF01' },
+  { key: 'bankName', label: 'Bank' },
+  { key: 'accountHolder', label: 'Account Holder', placeholder: 'Defaults to the legal name' },
+  { key: 'iban', label: 'IBAN / Account Number' },
+  { key: 'bic', label: 'BIC / SWIFT' }
+];
+
+const BusinessProfileSettings: React.FC<BusinessProfileSettingsProps> = ({ onSaved }) => {
+  const [profile, setProfile] = useState<BusinessProfile>(EMPTY_BUSINESS_PROFILE);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getSetting('businessProfile', EMPTY_BUSINESS_PROFILE)
+      .then(saved => setProfile({ ...EMPTY_BUSINESS_PROFILE, ...saved }))
+      .catch(() => undefined);
+  }, []);
+
+  const updateProfile = (changes: Partial<BusinessProfile>) => {
+    setProfile(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!LOGO_TYPES.includes(file.type) || file.size > MAX_LOGO_BYTES) {
+      toast({
+        title: "Logo Not Supported",
+        description: "Use a PNG or JPEG image of at most 512 KB.",
+        variant: "destructive"
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => updateProfile({ logo: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    if (!profile.legalName.trim()) {
+      toast({
+        title: "Legal Name Required",
+        description: "Invoices must name the business that issues them.",
+        variant: "destructive"
+      });
+      return;
+    }
+    onSaved(await saveSetting('businessProfile', profile));
+    toast({
+      title: "Business Profile Saved!",
+      description: "Draft invoices now show these details. Finalized invoices keep the details they were issued with."
+    });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Business Profile
+            </CardTitle>
+            <CardDescription>
+              Shown as the "From" block on every document, with your bank details as payment instructions
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={handleSave} className="flex items-center gap-2">
+            <Save className="h-4 w-4" />
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {FIELDS.map(({ key, label, placeholder }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`business-${key}`}>{label}</Label>
+              <Input
+                id={`business-${key}`}
+                value={profile[key]}
+                placeholder={placeholder}
+                onChange={(e) => updateProfile({ [key]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="business-address">Address</Label>
+          <Textarea
+            id="business-address"
+            value={profile.address}
+            onChange={(e) => updateProfile({ address: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="business-logo">Logo (PNG or JPEG)</Label>
+          <div className="flex items-center gap-4">
+            <Input
+              id="business-logo"
+              type="file"
+              accept={LOGO_TYPES.join(',')}
+              onChange={handleLogoUpload}
+              className="flex-1"
+            />
+            {profile.logo && (
+              <>
+                <img src={profile.logo} alt="Logo" className="max-h-12 max-w-[10rem] object-contain border rounded" />
+                <Button size="sm" variant="ghost" onClick={() => updateProfile({ logo: undefined })}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessProfileSettings;
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Package, Plus, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { createCatalogEntry, type CatalogEntry } from '@/lib/catalog';
+import { deleteCatalogEntry, saveCatalogEntry } from '@/lib/catalog-store';
+import { getSetting } from '@/lib/settings';
+import { DEFAULT_TAX_RATES, type TaxRate } from '@/lib/tax';
+import { UNIT_PRESETS } from '@/lib/units';
+
+interface CatalogManagerProps {
+  entries: CatalogEntry[];
+  onChange: () => void; // called after an entry is saved or deleted
+}
+
+// Entries are edited locally and written on Save, so the autocomplete never offers a half-typed
+// entry. Unsaved edits survive other entries being saved.
+const CatalogManager: React.FC<CatalogManagerProps> = ({ entries, onChange }) => {
+  const [drafts, setDrafts] = useState<CatalogEntry[]>(entries);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>(DEFAULT_TAX_RATES);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDrafts(prev => [
+      ...entries.map(entry => prev.find(draft => draft.id === entry.id) ?? entry),
+      ...prev.filter(draft => !entries.some(entry => entry.id === draft.id))
+    ]);
+  }, [entries]);
+
+  useEffect(() => {
+    getSetting('taxRates', DEFAULT_TAX_RATES).then(setTaxRates).catch(() => undefined);
+  }, []);
+
+  const updateDraft = (id: string, changes: Partial<CatalogEntry>) => {
+    setDrafts(prev => prev.map(draft => draft.id === id ? { ...draft, ...changes } : draft));
+  };
+
+  const toggleTax = (draft: CatalogEntry, taxId: string) => {
+    const current = draft.taxIds ?? [];
+    updateDraft(draft.id, {
+      taxIds: current.includes(taxId) ? current.filter(id => id !== taxId) : [...current, taxId]
+    });
+  };
+
+  const handleSave = async (draft: CatalogEntry) => {
+    if (!draft.name.trim()) {
+      toast({
+        title: "Name Required",
+        description: "Catalog entries are found by their name.",
+        variant: "destructive"
+      });
+      return;
+    }
+    await saveCatalogEntry(draft);
+    onChange();
+    toast({
+      title: "Catalog Entry Saved!",
+      description: `"${draft.name}" is now suggested when you type an item description.`
+    });
+  };
+
+  const handleDelete = async (draft: CatalogEntry) => {
+    setDrafts(prev => prev.filter(current => current.id !== draft.id));
+    if (!entries.some(entry => entry.id === draft.id)) return;
+    await deleteCatalogEntry(draft.id);
+    onChange();
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Products & Services
+            </CardTitle>
+            <CardDescription>
+              Type in an item's description to pick an entry; its rate, unit and taxes are filled in for you
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setDrafts(prev => [...prev, createCatalogEntry()])} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Entry
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <datalist id="catalog-unit-presets">
+          {UNIT_PRESETS.map((unit) => <option key={unit} value={unit} />)}
+        </datalist>
+        {drafts.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">No products or services yet.</p>
+        )}
+        {drafts.map((draft) => (
+          <div key={draft.id} className="p-4 border rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2 md:col-span-2">
+                <Label>Name</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => updateDraft(draft.id, { name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>SKU</Label>
+                <Input
+                  value={draft.sku}
+                  onChange={(e) => updateDraft(draft.id, { sku: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>Rate</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={draft.rate}
+                    onChange={(e) => updateDraft(draft.id, { rate: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Unit</Label>
+                  <Input
+                    list="catalog-unit-presets"
+                    placeholder="e.g. hours"
+                    value={draft.unit}
+                    onChange={(e) => updateDraft(draft.id, { unit: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                placeholder="Printed on the invoice; defaults to the name"
+                value={draft.description}
+                onChange={(e) => updateDraft(draft.id, { description: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-xs text-gray-600 mr-1">Taxes:</span>
+                {taxRates.map((taxRate) => (
+                  <Button
+                    key={taxRate.id}
+                    size="sm"
+                    variant={draft.taxIds?.includes(taxRate.id) ? 'default' : 'outline'}
+                    className="h-6 px-2 text-xs"
+                    onClick={() => toggleTax(draft, taxRate.id)}
+                  >
+                    {taxRate.name}
+                  </Button>
+                ))}
+                {draft.taxIds && (
+                  <Button
+                    size="sm"
+                    variant="link"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => updateDraft(draft.id, { taxIds: null })}
+                  >
+                    Use invoice taxes
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(draft)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleSave(draft)} className="flex items-center gap-2">
+                  <Save className="h-4 w-4" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CatalogManager;
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { FileMinus } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import { getCreditableQuantities } from '@/lib/credit-notes';
+import type { InvoiceData } from '@/lib/invoice';
+import { listInvoices } from '@/lib/invoice-store';
+import { formatQuantity } from '@/lib/units';
+
+interface CreditNoteDialogProps {
+  invoice: InvoiceData;
+  invoiceId: string;
+  onCreate: (itemIds: string[]) => void;
+}
+
+const CreditNoteDialog: React.FC<CreditNoteDialogProps> = ({ invoice, invoiceId, onCreate }) => {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  // Quantity left to credit per line, once the existing credit notes have been read
+  const [creditable, setCreditable] = useState<Record<string, number> | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setCreditable(null);
+    listInvoices()
+      .then(documents => setCreditable(getCreditableQuantities({ ...invoice, id: invoiceId }, documents)))
+      .catch(() => setCreditable({}));
+  }, [open, invoice, invoiceId]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, id] : prev.filter(current => current !== id));
+  };
+
+  const handleCreate = () => {
+    onCreate(selected);
+    setOpen(false);
+    setSelected([]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="flex items-center gap-2">
+          <FileMinus className="h-4 w-4" />
+          Create Credit Note
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Credit Note for {invoice.invoiceNumber}</DialogTitle>
+          <DialogDescription>
+            Select the lines to credit. What is left to credit of each is copied as a negative line into a new draft credit note.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {invoice.items.map((item) => {
+            const left = creditable?.[item.id] ?? 0;
+            return (
+              <div key={item.id} className="flex items-center gap-3">
+                <Checkbox
+                  id={`credit-${item.id}`}
+                  checked={selected.includes(item.id)}
+                  disabled={left === 0}
+                  onCheckedChange={(checked) => toggle(item.id, checked === true)}
+                />
+                <Label htmlFor={`credit-${item.id}`} className="flex-1 font-normal">
+                  {item.description || 'Untitled item'}
+                  {creditable && left === 0 && <span className="ml-2 text-gray-500">(fully credited)</span>}
+                  {left !== 0 && left !== item.quantity && (
+                    <span className="ml-2 text-gray-500">
+                      ({formatQuantity(left, invoice.quantityPrecision, invoice.clientInfo.locale)} of {formatQuantity(item.quantity, invoice.quantityPrecision, invoice.clientInfo.locale)} left)
+                    </span>
+                  )}
+                </Label>
+                <span className="text-sm text-gray-600">{formatMoney(item.amount, invoice.currency, invoice.clientInfo.locale)}</span>
+              </div>
+            );
+          })}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={selected.length === 0}>
+            Create Draft
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreditNoteDialog;
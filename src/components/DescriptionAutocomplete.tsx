@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { formatMoney } from '@/lib/currency';
+import { searchCatalog, type CatalogEntry } from '@/lib/catalog';
+
+interface DescriptionAutocompleteProps {
+  value: string;
+  catalog: CatalogEntry[];
+  currency: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+  onSelect: (entry: CatalogEntry) => void;
+}
+
+// A free-text description field that suggests matching catalog entries as the user types.
+// Arrow keys move through the suggestions, Enter picks one and Escape closes the list.
+const DescriptionAutocomplete: React.FC<DescriptionAutocompleteProps> = ({
+  value,
+  catalog,
+  currency,
+  placeholder,
+  onChange,
+  onSelect
+}) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState('');
+  const matches = searchCatalog(catalog, value);
+  const showSuggestions = open && matches.length > 0;
+
+  const pick = (entry: CatalogEntry) => {
+    onSelect(entry);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    const index = matches.findIndex(entry => entry.id === highlighted);
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(matches[(index + step + matches.length) % matches.length].id);
+    } else if (event.key === 'Enter' && index >= 0) {
+      event.preventDefault();
+      pick(matches[index]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={showSuggestions} onOpenChange={setOpen}>
+      <PopoverAnchor asChild>
+        <Input
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setOpen(false)}
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="p-0 w-[var(--radix-popover-trigger-width)] min-w-[16rem]"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <Command shouldFilter={false} value={highlighted} onValueChange={setHighlighted}>
+          <CommandList>
+            <CommandGroup heading="Catalog">
+              {matches.map((entry) => (
+                <CommandItem
+                  key={entry.id}
+                  value={entry.id}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onSelect={() => pick(entry)}
+                  className="flex justify-between gap-2"
+                >
+                  <span className="truncate">
+                    {entry.name}
+                    {entry.sku && <span className="ml-2 text-xs text-gray-500">{entry.sku}</span>}
+                  </span>
+                  <span className="text-xs text-gray-600 whitespace-nowrap">
+                    {formatMoney(entry.rate, currency)}{entry.unit && ` / ${entry.unit}`}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DescriptionAutocomplete;
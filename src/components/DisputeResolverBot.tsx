@@ -9,13 +9,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator';
 import { MessageSquare, Send, Copy, Loader2, Clock, AlertTriangle, DollarSign } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
 
 interface DisputeContext {
   invoiceNumber: string;
   clientName: string;
   amount: number;
+  currency?: string;
   daysOverdue: number;
   previousContacts: number;
+  lateCharges?: number; // accrued under the late fee policy
   disputeReason?: string;
 }
 
@@ -70,6 +73,10 @@ const DisputeResolverBot: React.FC<DisputeResolverBotProps> = ({ invoiceContext
     
     // Mock AI-generated messages based on context
     const mockMessages: GeneratedMessage[] = [];
+    const lateCharges = context.lateCharges || 0;
+    const lateChargesNotice = lateCharges > 0
+      ? `\n\nUnder our payment terms, late charges of ${formatMoney(lateCharges, context.currency)} have accrued so far, bringing the amount now due to ${formatMoney(context.amount + lateCharges, context.currency)}.`
+      : '';
     
     if (messageType === 'reminder') {
       mockMessages.push({
@@ -77,7 +84,7 @@ const DisputeResolverBot: React.FC<DisputeResolverBotProps> = ({ invoiceContext
         type: 'reminder',
         tone: tone,
         subject: `Payment Reminder: Invoice ${context.invoiceNumber}`,
-        content: `Dear ${context.clientName},\n\nI hope this email finds you well. I wanted to reach out regarding Invoice ${context.invoiceNumber} for $${context.amount.toFixed(2)}, which was due ${context.daysOverdue} days ago.\n\nI understand that sometimes invoices can slip through the cracks, so I wanted to send a friendly reminder. If you have already processed this payment, please disregard this message.\n\nIf you have any questions about this invoice or need to discuss payment arrangements, please don't hesitate to reach out. I'm here to help and ensure we can resolve this promptly.\n\nThank you for your attention to this matter.\n\nBest regards,\n[Your Name]`,
+        content: `Dear ${context.clientName},\n\nI hope this email finds you well. I wanted to reach out regarding Invoice ${context.invoiceNumber} for ${formatMoney(context.amount, context.currency)}, which was due ${context.daysOverdue} days ago.${lateChargesNotice}\n\nI understand that sometimes invoices can slip through the cracks, so I wanted to send a friendly reminder. If you have already processed this payment, please disregard this message.\n\nIf you have any questions about this invoice or need to discuss payment arrangements, please don't hesitate to reach out. I'm here to help and ensure we can resolve this promptly.\n\nThank you for your attention to this matter.\n\nBest regards,\n[Your Name]`,
         followUpDays: 7
       });
       
@@ -87,7 +94,7 @@ const DisputeResolverBot: React.FC<DisputeResolverBotProps> = ({ invoiceContext
           type: 'reminder',
           tone: 'firm',
           subject: `Urgent: Overdue Payment Required - Invoice ${context.invoiceNumber}`,
-          content: `Dear ${context.clientName},\n\nThis is a formal notice regarding the overdue payment for Invoice ${context.invoiceNumber} in the amount of $${context.amount.toFixed(2)}. The payment is now ${context.daysOverdue} days past due.\n\nWe have attempted to contact you ${context.previousContacts} time(s) previously regarding this matter. Immediate payment is required to avoid further collection actions.\n\nPlease remit payment within 5 business days. If payment has already been sent, please provide proof of payment immediately.\n\nFailure to respond or make payment arrangements may result in additional collection fees and potential legal action.\n\nSincerely,\n[Your Name]\n[Company Name]`,
+          content: `Dear ${context.clientName},\n\nThis is a formal notice regarding the overdue payment for Invoice ${context.invoiceNumber} in the amount of ${formatMoney(context.amount, context.currency)}. The payment is now ${context.daysOverdue} days past due.${lateChargesNotice}\n\nWe have attempted to contact you ${context.previousContacts} time(s) previously regarding this matter. Immediate payment is required to avoid further collection actions.\n\nPlease remit payment within 5 business days. If payment has already been sent, please provide proof of payment immediately.\n\nFailure to respond or make payment arrangements may result in additional collection fees and potential legal action.\n\nSincerely,\n[Your Name]\n[Company Name]`,
           followUpDays: 5
         });
       }
@@ -106,7 +113,7 @@ const DisputeResolverBot: React.FC<DisputeResolverBotProps> = ({ invoiceContext
         type: 'final-notice',
         tone: 'firm',
         subject: `FINAL NOTICE: Invoice ${context.invoiceNumber} - Immediate Action Required`,
-        content: `Dear ${context.clientName},\n\nThis is our FINAL NOTICE regarding the seriously overdue payment for Invoice ${context.invoiceNumber} in the amount of $${context.amount.toFixed(2)}.\n\nDespite our previous ${context.previousContacts} attempt(s) to collect this debt, the invoice remains unpaid after ${context.daysOverdue} days past due. This is unacceptable and jeopardizes our business relationship.\n\nYou have 48 HOURS to remit full payment or contact us with acceptable payment arrangements. Failure to respond will result in:\n\n• Transfer to our collections department\n• Additional collection fees and interest charges\n• Potential legal action to recover the full amount\n• Reporting to credit agencies\n• Termination of business relationship\n\nThis is your final opportunity to resolve this matter directly. Do not ignore this notice.\n\nImmediate action required.\n\n[Your Name]\n[Company Name]\n[Phone Number]`,
+        content: `Dear ${context.clientName},\n\nThis is our FINAL NOTICE regarding the seriously overdue payment for Invoice ${context.invoiceNumber} in the amount of ${formatMoney(context.amount, context.currency)}.\n\nDespite our previous ${context.previousContacts} attempt(s) to collect this debt, the invoice remains unpaid after ${context.daysOverdue} days past due. This is unacceptable and jeopardizes our business relationship.${lateChargesNotice}\n\nYou have 48 HOURS to remit full payment or contact us with acceptable payment arrangements. Failure to respond will result in:\n\n• Transfer to our collections department\n• ${lateCharges > 0 ? 'Further late charges accruing until the invoice is paid' : 'Additional collection fees and interest charges'}\n• Potential legal action to recover the full amount\n• Reporting to credit agencies\n• Termination of business relationship\n\nThis is your final opportunity to resolve this matter directly. Do not ignore this notice.\n\nImmediate action required.\n\n[Your Name]\n[Company Name]\n[Phone Number]`,
         followUpDays: 2
       });
     }
@@ -174,7 +181,7 @@ const DisputeResolverBot: React.FC<DisputeResolverBotProps> = ({ invoiceContext
           </div>
           
           <div className="space-y-2">
-            <Label htmlFor="amount">Amount ($)</Label>
+            <Label htmlFor="amount">Amount ({context.currency || DEFAULT_CURRENCY})</Label>
             <Input
               id="amount"
               type="number"
@@ -184,6 +191,17 @@ const DisputeResolverBot: React.FC<DisputeResolverBotProps> = ({ invoiceContext
             />
           </div>
           
+          <div className="space-y-2">
+            <Label htmlFor="late-charges">Late Charges ({context.currency || DEFAULT_CURRENCY})</Label>
+            <Input
+              id="late-charges"
+              type="number"
+              placeholder="0.00"
+              value={context.lateCharges || ''}
+              onChange={(e) => updateContext('lateCharges', parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          
           <div className="space-y-2">
             <Label htmlFor="days-overdue">Days Overdue</Label>
             <Input
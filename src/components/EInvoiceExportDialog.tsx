@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle2, FileCode, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CII_PROFILES, type CiiProfile } from '@/lib/cii';
+import { formatMoney } from '@/lib/currency';
+import type { EInvoiceIssue } from '@/lib/e-invoice';
+import {
+  createEInvoiceFile,
+  E_INVOICE_FORMATS,
+  getEInvoiceFormat,
+  prepareEInvoice,
+  type EInvoiceFormat
+} from '@/lib/e-invoice-export';
+import type { InvoiceData } from '@/lib/invoice';
+import type { InvoiceDocument } from '@/lib/invoice-document';
+
+interface EInvoiceExportDialogProps {
+  invoice: InvoiceData; // with the sender resolved, as it is printed
+  document: InvoiceDocument; // the same document the PDF download renders
+  fileName: string;
+}
+
+const IssueRow: React.FC<{ issue: EInvoiceIssue }> = ({ issue }) => (
+  <div className="flex items-start gap-2 text-sm">
+    {issue.severity === 'error'
+      ? <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+      : <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />}
+    <div className="flex-1">
+      <span className="font-medium">{issue.field}:</span> {issue.message}
+    </div>
+    <span className="text-xs text-gray-500 whitespace-nowrap">{issue.rule}</span>
+  </div>
+);
+
+// Validates the invoice against EN 16931 and the chosen format's rules before anything is
+// downloaded, so a rejected file never reaches the client
+const EInvoiceExportDialog: React.FC<EInvoiceExportDialogProps> = ({ invoice, document: invoiceDocument, fileName }) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<EInvoiceFormat>(invoice.clientInfo.eInvoiceFormat ?? 'peppol');
+  const [profile, setProfile] = useState<CiiProfile>('en16931');
+  const { toast } = useToast();
+
+  const options = { format, profile };
+  const prepared = open ? prepareEInvoice(invoice, options) : null;
+  const model = prepared?.model ?? null;
+  const issues = prepared?.issues ?? [];
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  // Each opening starts from the format chosen for the client
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setFormat(invoice.clientInfo.eInvoiceFormat ?? 'peppol');
+    setOpen(isOpen);
+  };
+
+  const handleDownload = () => {
+    if (!model || errors.length > 0) return;
+    const file = createEInvoiceFile(invoiceDocument, model, options, fileName);
+    const url = URL.createObjectURL(file.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "E-Invoice Downloaded!",
+      description: `Saved as ${file.fileName}.`
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full flex items-center gap-2">
+          <FileCode className="h-4 w-4" />
+          Export E-Invoice
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export E-Invoice</DialogTitle>
+          <DialogDescription>
+            {getEInvoiceFormat(format).description} The file is checked against EN 16931 and the format's rules first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {model && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="e-invoice-format">Format</Label>
+                <Select value={format} onValueChange={(value: EInvoiceFormat) => setFormat(value)}>
+                  <SelectTrigger id="e-invoice-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {E_INVOICE_FORMATS.map((entry) => (
+                      <SelectItem key={entry.value} value={entry.value}>{entry.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {format === 'factur-x' && (
+                <div className="space-y-2">
+                  <Label htmlFor="e-invoice-profile">Profile</Label>
+                  <Select value={profile} onValueChange={(value: CiiProfile) => setProfile(value)}>
+                    <SelectTrigger id="e-invoice-profile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CII_PROFILES.map((entry) => (
+                        <SelectItem key={entry.value} value={entry.value}>{entry.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="text-gray-600">Document</span>
+              <span>{model.documentType === 'credit-note' ? 'Credit note' : 'Invoice'} {model.number} ({model.typeCode})</span>
+              <span className="text-gray-600">Buyer</span>
+              <span>
+                {model.buyer.name || '–'}
+                {model.buyer.endpoint && ` (${model.buyer.endpoint.scheme}:${model.buyer.endpoint.id})`}
+              </span>
+              <span className="text-gray-600">Amount Due</span>
+              <span>{formatMoney(model.totals.payable, model.currency)}</span>
+            </div>
+
+            {errors.length === 0 ? (
+              <p className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                <CheckCircle2 className="h-4 w-4" />
+                The invoice passes all checks{warnings.length > 0 && ', with the warnings below'}.
+              </p>
+            ) : (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
+                {errors.map((issue, index) => <IssueRow key={index} issue={issue} />)}
+              </div>
+            )}
+
+            {warnings.length > 0 && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                {warnings.map((issue, index) => <IssueRow key={index} issue={issue} />)}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleDownload} disabled={errors.length > 0}>
+            {errors.length > 0 ? `Fix ${errors.length} ${errors.length === 1 ? 'Problem' : 'Problems'} to Download` : `Download ${format === 'factur-x' ? 'PDF' : 'XML'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EInvoiceExportDialog;
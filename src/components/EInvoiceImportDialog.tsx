@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, FileInput, Info, XCircle } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import {
+  mapEInvoiceImport,
+  parseEInvoiceXml,
+  type EInvoiceImportOptions,
+  type EInvoiceImportResult,
+  type ImportedEInvoice,
+  type ImportNote
+} from '@/lib/e-invoice-import';
+import type { InvoiceData } from '@/lib/invoice';
+import { formatQuantity } from '@/lib/units';
+
+interface EInvoiceImportDialogProps {
+  invoice: InvoiceData;
+  disabled?: boolean;
+  onImport: (result: EInvoiceImportResult) => void;
+}
+
+const NoteRow: React.FC<{ note: ImportNote }> = ({ note }) => (
+  <div className="flex items-start gap-2 text-sm">
+    {note.severity === 'warning'
+      ? <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+      : <Info className="h-4 w-4 mt-0.5 shrink-0 text-gray-500" />}
+    <div className="flex-1">
+      <span className="font-medium">{note.field}:</span> {note.message}
+    </div>
+  </div>
+);
+
+const OPTIONS: { key: Exclude<keyof EInvoiceImportOptions, 'markup'>; label: string }[] = [
+  { key: 'client', label: 'Use the buyer as the client' },
+  { key: 'dates', label: 'Copy the issue and due dates' },
+  { key: 'notes', label: 'Add the notes' }
+];
+
+const EInvoiceImportDialog: React.FC<EInvoiceImportDialogProps> = ({ invoice, disabled, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [imported, setImported] = useState<ImportedEInvoice | null>(null);
+  const [parseError, setParseError] = useState('');
+  const [options, setOptions] = useState<EInvoiceImportOptions>({ markup: 0, client: false, dates: true, notes: true });
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) return;
+    setImported(null);
+    setParseError('');
+    // Only an empty client is replaced without asking
+    setOptions(prev => ({ ...prev, client: !invoice.clientInfo.name.trim() }));
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setImported(parseEInvoiceXml(await file.text()));
+      setParseError('');
+    } catch (error) {
+      setImported(null);
+      setParseError(error instanceof Error ? error.message : 'The file could not be read.');
+    }
+  };
+
+  const result = imported ? mapEInvoiceImport(imported, invoice, options) : null;
+  const warnings = result?.report.filter(note => note.severity === 'warning') ?? [];
+  const infos = result?.report.filter(note => note.severity === 'info') ?? [];
+
+  const handleImport = () => {
+    if (!result) return;
+    onImport(result);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled} className="flex items-center gap-2">
+          <FileInput className="h-4 w-4" />
+          Import E-Invoice
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import E-Invoice</DialogTitle>
+          <DialogDescription>
+            A UBL (Peppol) or CII (Factur-X, XRechnung) XML invoice from a supplier, added as lines to bill on. The file is read on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="e-invoice-file">XML File</Label>
+              <Input id="e-invoice-file" type="file" accept=".xml,application/xml,text/xml" onChange={handleFile} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="e-invoice-markup">Markup (%)</Label>
+              <Input
+                id="e-invoice-markup"
+                type="number"
+                step="0.1"
+                value={options.markup}
+                onChange={(e) => setOptions(prev => ({ ...prev, markup: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            {OPTIONS.map(({ key, label }) => (
+              <div key={key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`e-invoice-import-${key}`}
+                  checked={options[key]}
+                  onCheckedChange={(checked) => setOptions(prev => ({ ...prev, [key]: checked === true }))}
+                />
+                <Label htmlFor={`e-invoice-import-${key}`} className="font-normal">{label}</Label>
+              </div>
+            ))}
+          </div>
+
+          {parseError && (
+            <p className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              <XCircle className="h-4 w-4" />
+              {parseError}
+            </p>
+          )}
+
+          {imported && result && (
+            <>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <span className="text-gray-600">Document</span>
+                <span>
+                  {imported.syntax} {imported.documentType === 'credit-note' ? 'credit note' : 'invoice'} {imported.number}
+                  {imported.issueDate && ` of ${imported.issueDate}`}
+                </span>
+                <span className="text-gray-600">Supplier</span>
+                <span>{imported.seller.name || '–'}</span>
+                <span className="text-gray-600">Buyer</span>
+                <span>{imported.buyer.name || '–'}</span>
+              </div>
+
+              {result.items.length > 0 && (
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  <Label>Lines to Add</Label>
+                  {result.items.map((item) => (
+                    <div key={item.id} className="flex justify-between gap-4 text-sm">
+                      <span className="whitespace-pre-line">{item.description}</span>
+                      <span className="whitespace-nowrap text-gray-600">
+                        {formatQuantity(item.quantity, invoice.quantityPrecision, invoice.clientInfo.locale)} {item.unit} × {formatMoney(item.rate, invoice.currency, invoice.clientInfo.locale)} = {formatMoney(item.amount, invoice.currency, invoice.clientInfo.locale)}
+                      </span>
+                    </div>
+                  ))}
+                  {result.adjustments.map((adjustment) => (
+                    <div key={adjustment.id} className="flex justify-between gap-4 text-sm">
+                      <span>{adjustment.label || (adjustment.kind === 'discount' ? 'Discount' : 'Surcharge')}</span>
+                      <span className="whitespace-nowrap text-gray-600">
+                        {adjustment.kind === 'discount' ? '−' : '+'}{formatMoney(adjustment.value, invoice.currency)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {warnings.length > 0 && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                  {warnings.map((note, index) => <NoteRow key={index} note={note} />)}
+                </div>
+              )}
+              {infos.length > 0 && (
+                <div className="p-3 bg-gray-50 border rounded-lg space-y-2">
+                  {infos.map((note, index) => <NoteRow key={index} note={note} />)}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={!result || result.items.length === 0}>
+            Add {result?.items.length ?? 0} {result?.items.length === 1 ? 'Line' : 'Lines'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EInvoiceImportDialog;
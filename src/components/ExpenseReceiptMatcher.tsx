@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Upload, FileText, Check, X, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
 
 interface ExpenseItem {
   id: string;
@@ -18,10 +19,11 @@ interface ExpenseItem {
 }
 
 interface ExpenseReceiptMatcherProps {
+  currency?: string;
   onAddToInvoice: (items: ExpenseItem[]) => void;
 }
 
-const ExpenseReceiptMatcher: React.FC<ExpenseReceiptMatcherProps> = ({ onAddToInvoice }) => {
+const ExpenseReceiptMatcher: React.FC<ExpenseReceiptMatcherProps> = ({ currency, onAddToInvoice }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [extractedExpenses, setExtractedExpenses] = useState<ExpenseItem[]>([]);
@@ -254,7 +256,7 @@ const ExpenseReceiptMatcher: React.FC<ExpenseReceiptMatcherProps> = ({ onAddToIn
                       <div className="flex items-center gap-4 text-sm text-gray-600">
                         <span>Date: {item.date}</span>
                         <span className="font-semibold text-green-600">
-                          ${item.amount.toFixed(2)}
+                          {formatMoney(item.amount, currency)}
                         </span>
                       </div>
                     </div>
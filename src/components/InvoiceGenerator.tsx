@@ -1,184 +1,692 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { FileText, Download, Plus, Trash2, Bot, Sparkles } from 'lucide-react';
-import jsPDF from 'jspdf';
+import { FileText, Download, Plus, Trash2, Bot, Sparkles, FolderOpen, Lock, Settings, Repeat, FileOutput, Link, Package, GripVertical, Rows3 } from 'lucide-react';
 
 // Import AI components
 import ExpenseReceiptMatcher from '@/components/ExpenseReceiptMatcher';
 import AIBrandingThemes from '@/components/AIBrandingThemes';
 import ClientInfoEnricher from '@/components/ClientInfoEnricher';
 import DisputeResolverBot from '@/components/DisputeResolverBot';
+import InvoiceList from '@/components/InvoiceList';
+import InvoicePreview from '@/components/InvoicePreview';
+import TaxRatesEditor from '@/components/TaxRatesEditor';
+import AdjustmentsEditor from '@/components/AdjustmentsEditor';
+import NumberingSeriesManager from '@/components/NumberingSeriesManager';
+import RecurringProfiles from '@/components/RecurringProfiles';
+import InvoiceStatusPanel from '@/components/InvoiceStatusPanel';
+import PaymentsLedger from '@/components/PaymentsLedger';
+import CreditNoteDialog from '@/components/CreditNoteDialog';
+import BusinessProfileSettings from '@/components/BusinessProfileSettings';
+import LateFeePolicySettings from '@/components/LateFeePolicySettings';
+import LateChargesPanel from '@/components/LateChargesPanel';
+import CatalogManager from '@/components/CatalogManager';
+import DescriptionAutocomplete from '@/components/DescriptionAutocomplete';
+import TimesheetImportDialog from '@/components/TimesheetImportDialog';
+import ItemSectionHeader from '@/components/ItemSectionHeader';
+import EInvoiceExportDialog from '@/components/EInvoiceExportDialog';
+import EInvoiceImportDialog from '@/components/EInvoiceImportDialog';
 
-interface InvoiceItem {
-  id: string;
-  description: string;
-  quantity: number;
-  rate: number;
-  amount: number;
-}
+import {
+  createBlankInvoice,
+  createEmptyItem,
+  createId,
+  DOCUMENT_TYPE_LABELS,
+  getDisplayNumber,
+  getItemTaxIds,
+  todayISO,
+  type BrandTheme,
+  type Discount,
+  type ClientInfo,
+  type DocumentReference,
+  type DocumentType,
+  type InvoiceData,
+  type InvoiceItem
+} from '@/lib/invoice';
+import {
+  getCurrentInvoiceId,
+  getInvoice,
+  listInvoices,
+  saveInvoice,
+  setCurrentInvoiceId,
+  type SavedInvoice
+} from '@/lib/invoice-store';
+import { calculateItemAmount, recalculateItems } from '@/lib/pricing';
+import { DEFAULT_SERIES_LIST, getClientPrefix, keepNumberedFields, type NumberingSeries } from '@/lib/numbering';
+import { listSeries, reserveNumber } from '@/lib/numbering-store';
+import { generateDueDrafts } from '@/lib/recurring-store';
+import { createCreditNote, canCreditInvoice } from '@/lib/credit-notes';
+import { applyCreditNote, revokeCreditNote } from '@/lib/credit-notes-store';
+import { canConvertQuote, convertQuoteToInvoice, createBlankQuote } from '@/lib/quotes';
+import { linkConvertedInvoice } from '@/lib/quotes-store';
+import { applyPayments, getPaymentSummary, type Payment } from '@/lib/payments';
+import { getDueDate, getTermsName, PAYMENT_TERMS } from '@/lib/payment-terms';
+import {
+  getDaysOverdue,
+  getPreviousContacts,
+  isLocked,
+  STATUS_LABELS,
+  transitionStatus,
+  type ManualStatus
+} from '@/lib/status';
+import { getSetting } from '@/lib/settings';
+import { EMPTY_BUSINESS_PROFILE, hasBusinessProfile, type BusinessProfile } from '@/lib/business-profile';
+import {
+  calculateLateCharge,
+  createLateChargeInvoice,
+  createLateChargeItem,
+  DEFAULT_LATE_FEE_POLICY,
+  type LateCharge,
+  type LateFeePolicy
+} from '@/lib/late-fees';
+import { recordLateCharge } from '@/lib/late-fees-store';
+import { applyCatalogEntry, type CatalogEntry } from '@/lib/catalog';
+import { listCatalog } from '@/lib/catalog-store';
+import type { TimesheetLine } from '@/lib/timesheet';
+import { markTimeEntriesBilled } from '@/lib/timesheet-store';
+import {
+  createSection,
+  getSectionSubtotal,
+  groupItems,
+  moveItem,
+  moveSection,
+  removeSection,
+  type ItemGroup,
+  type ItemSection
+} from '@/lib/sections';
+import { renderInvoicePdf } from '@/lib/pdf';
+import { buildInvoiceDocument } from '@/lib/invoice-document';
+import { CURRENCIES, formatMoney, getCurrencyDigits, LOCALES } from '@/lib/currency';
+import { E_INVOICE_FORMATS } from '@/lib/e-invoice-export';
+import type { EInvoiceImportResult } from '@/lib/e-invoice-import';
+import {
+  ROUNDING_MODES,
+  type RoundingMode,
+  type RoundingSettings,
+  type RoundingStrategy
+} from '@/lib/money';
+import { DEFAULT_TAX_RATES } from '@/lib/tax';
+import { MAX_QUANTITY_PRECISION, roundQuantity, UNIT_PRESETS } from '@/lib/units';
 
-interface ClientInfo {
-  name: string;
-  email: string;
-  company?: string;
-  address?: string;
-  phone?: string;
-}
+// Push the theme colors to CSS variables so the rest of the page can pick them up
+const applyThemeVariables = (theme: BrandTheme | null) => {
+  if (typeof document !== 'undefined' && theme) {
+    document.documentElement.style.setProperty('--invoice-primary', theme.colors.primary);
+    document.documentElement.style.setProperty('--invoice-secondary', theme.colors.secondary);
+    document.documentElement.style.setProperty('--invoice-accent', theme.colors.accent);
+  }
+};
 
-interface BrandTheme {
+interface DraggedRow {
+  type: 'item' | 'section';
   id: string;
-  name: string;
-  colors: {
-    primary: string;
-    secondary: string;
-    accent: string;
-  };
-  fonts: {
-    heading: string;
-    body: string;
-  };
 }
 
+// Whether a drop lands on the upper half of the row under the pointer
+const isUpperHalf = (event: React.DragEvent) => {
+  const rect = event.currentTarget.getBoundingClientRect();
+  return event.clientY < rect.top + rect.height / 2;
+};
+
 const InvoiceGenerator: React.FC = () => {
-  const [invoiceNumber, setInvoiceNumber] = useState('INV-001');
-  const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0]);
-  const [dueDate, setDueDate] = useState('');
-  const [clientInfo, setClientInfo] = useState<ClientInfo>({
-    name: '',
-    email: '',
-    company: '',
-    address: '',
-    phone: ''
-  });
-  const [items, setItems] = useState<InvoiceItem[]>([
-    { id: '1', description: '', quantity: 1, rate: 0, amount: 0 }
-  ]);
-  const [notes, setNotes] = useState('');
-  const [appliedTheme, setAppliedTheme] = useState<BrandTheme | null>(null);
+  const [invoiceId, setInvoiceId] = useState<string | null>(null);
+  const [invoice, setInvoice] = useState<InvoiceData>(createBlankInvoice);
+  const [activeTab, setActiveTab] = useState('invoice');
+  const [savedListKey, setSavedListKey] = useState(0);
+  const [seriesList, setSeriesList] = useState<NumberingSeries[]>([]);
+  const [isFinalizing, setIsFinalizing] = useState(false);
+  const [businessProfile, setBusinessProfile] = useState<BusinessProfile>(EMPTY_BUSINESS_PROFILE);
+  const [lateFeePolicy, setLateFeePolicy] = useState<LateFeePolicy>(DEFAULT_LATE_FEE_POLICY);
+  const [catalog, setCatalog] = useState<CatalogEntry[]>([]);
+  const [collapsedSections, setCollapsedSections] = useState<string[]>([]);
+  // Text typed into quantity and rate fields, by item id and field, until the field loses focus
+  const [numberDrafts, setNumberDrafts] = useState<Record<string, string>>({});
+  const createdAtRef = useRef<string | undefined>();
+  const skipNextSave = useRef(true);
+  const hasPendingSave = useRef(false);
   const invoiceRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef<DraggedRow | null>(null);
   const { toast } = useToast();
 
-  const addItem = () => {
-    const newItem: InvoiceItem = {
-      id: Date.now().toString(),
-      description: '',
-      quantity: 1,
-      rate: 0,
-      amount: 0
+  const { invoiceNumber, invoiceDate, dueDate, validUntil, currency, clientInfo, items, notes, theme: appliedTheme } = invoice;
+  const displayNumber = getDisplayNumber(invoice);
+
+  const today = todayISO();
+  const locked = isLocked(invoice);
+
+  // Content edits are dropped once the invoice has been sent; status changes go through setInvoice
+  const editInvoice = (update: (prev: InvoiceData) => InvoiceData) => {
+    setInvoice(prev => isLocked(prev) ? prev : keepNumberedFields(prev, update(prev)));
+  };
+
+  const updateInvoice = (changes: Partial<InvoiceData>) => {
+    editInvoice(prev => {
+      let next = { ...prev, ...changes };
+      // Payment terms keep the due date in step with the invoice date
+      if (next.paymentTerms && (changes.invoiceDate || changes.paymentTerms)) {
+        next = { ...next, dueDate: getDueDate(next.paymentTerms, next.invoiceDate) };
+      }
+      if (changes.quantityPrecision !== undefined) {
+        next = {
+          ...next,
+          items: next.items.map(item => ({ ...item, quantity: roundQuantity(item.quantity, next.quantityPrecision) }))
+        };
+        return { ...next, items: recalculateItems(next) };
+      }
+      // Line amounts depend on the currency's minor unit and the rounding settings
+      return changes.currency || changes.rounding ? { ...next, items: recalculateItems(next) } : next;
+    });
+  };
+
+  const updateTermsDays = (days: number) => {
+    if (invoice.paymentTerms) {
+      updateInvoice({ paymentTerms: { ...invoice.paymentTerms, days } });
+    }
+  };
+
+  const updateRounding = (changes: Partial<RoundingSettings>) => {
+    updateInvoice({ rounding: { ...invoice.rounding, ...changes } });
+  };
+
+  const setClientInfo = (update: (prev: ClientInfo) => ClientInfo) => {
+    editInvoice(prev => ({ ...prev, clientInfo: update(prev.clientInfo) }));
+  };
+
+  const setItems = (update: (prev: InvoiceItem[]) => InvoiceItem[]) => {
+    editInvoice(prev => ({ ...prev, items: update(prev.items) }));
+  };
+
+  const loadInvoice = useCallback((id: string, data: InvoiceData, createdAt?: string) => {
+    // Loading replaces every field at once; that render must not count as an edit
+    skipNextSave.current = true;
+    hasPendingSave.current = false;
+    createdAtRef.current = createdAt;
+    setInvoiceId(id);
+    setInvoice(data);
+    applyThemeVariables(data.theme);
+    setCurrentInvoiceId(id);
+  }, []);
+
+  const startBlankInvoice = useCallback(async (documentType: DocumentType = 'invoice') => {
+    const taxRates = await getSetting('taxRates', DEFAULT_TAX_RATES).catch(() => DEFAULT_TAX_RATES);
+    loadInvoice(createId(), documentType === 'quote' ? createBlankQuote(taxRates) : createBlankInvoice(taxRates));
+  }, [loadInvoice]);
+
+  // Restore the invoice that was open before the page was reloaded
+  useEffect(() => {
+    const restoreInvoice = async () => {
+      const currentId = getCurrentInvoiceId();
+      const saved = currentId ? await getInvoice(currentId).catch(() => undefined) : undefined;
+      if (saved) {
+        loadInvoice(saved.id, saved, saved.createdAt);
+      } else {
+        await startBlankInvoice();
+      }
     };
-    setItems([...items, newItem]);
+    restoreInvoice();
+  }, [loadInvoice, startBlankInvoice]);
+
+  // Autosave every edit shortly after the user stops typing
+  useEffect(() => {
+    if (!invoiceId) return;
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    hasPendingSave.current = true;
+    const timer = setTimeout(async () => {
+      hasPendingSave.current = false;
+      const saved = await saveInvoice(invoiceId, invoice, createdAtRef.current);
+      createdAtRef.current = saved.createdAt;
+      setSavedListKey(key => key + 1);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [invoiceId, invoice]);
+
+  // Switching documents cancels the pending autosave, so the last edits are saved first
+  const flushPendingSave = async () => {
+    if (!invoiceId || !hasPendingSave.current) return;
+    hasPendingSave.current = false;
+    const saved = await saveInvoice(invoiceId, invoice, createdAtRef.current);
+    createdAtRef.current = saved.createdAt;
+  };
+
+  // Recurring runs that came due while the app was closed become drafts on startup
+  useEffect(() => {
+    generateDueDrafts()
+      .then(({ drafts, failed }) => {
+        if (failed.length > 0) {
+          toast({
+            title: "Recurring Schedules Failed",
+            description: `${failed.map(profile => profile.name).join(', ')} could not generate drafts. See Recurring for details.`,
+            variant: "destructive"
+          });
+        }
+        if (drafts.length === 0) return;
+        setSavedListKey(key => key + 1);
+        toast({
+          title: "Recurring Drafts Created",
+          description: `${drafts.length} recurring invoice${drafts.length === 1 ? ' is' : 's are'} ready for review under Saved.`
+        });
+      })
+      .catch(() => undefined);
+  }, [toast]);
+
+  useEffect(() => {
+    getSetting('businessProfile', EMPTY_BUSINESS_PROFILE).then(setBusinessProfile).catch(() => undefined);
+    getSetting('lateFeePolicy', DEFAULT_LATE_FEE_POLICY).then(setLateFeePolicy).catch(() => undefined);
+  }, []);
+
+  const loadCatalog = useCallback(() => {
+    listCatalog().then(setCatalog).catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  useEffect(() => {
+    listSeries().then(setSeriesList).catch(() => setSeriesList(DEFAULT_SERIES_LIST));
+  }, [activeTab]);
+
+  // The number is only taken from the series now, so abandoned drafts never leave gaps
+  const finalizeInvoice = async () => {
+    if (!invoiceId) return null;
+    setIsFinalizing(true);
+    try {
+      const issued = await reserveNumber(invoice.seriesId, invoiceId, {
+        date: invoiceDate,
+        clientPrefix: getClientPrefix(clientInfo)
+      });
+      // The issued invoice keeps the sender details it went out with
+      updateInvoice({
+        invoiceNumber: issued.id,
+        finalizedAt: issued.issuedAt,
+        sender: hasBusinessProfile(businessProfile) ? businessProfile : undefined
+      });
+      if (invoice.reference?.type === 'quote') {
+        await linkConvertedInvoice(invoice.reference.id, { id: invoiceId, number: issued.id, type: invoice.documentType })
+          .catch(() => undefined);
+      }
+      toast({
+        title: "Invoice Finalized!",
+        description: hasBusinessProfile(businessProfile)
+          ? `Invoice number ${issued.id} has been reserved.`
+          : `Invoice number ${issued.id} has been reserved. Add your business profile under Settings so it shows who issued it.`
+      });
+      return issued;
+    } catch (error) {
+      toast({
+        title: "Could Not Finalize",
+        description: error instanceof Error ? error.message : "The invoice number could not be reserved.",
+        variant: "destructive"
+      });
+      return null;
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
+  // An invoice is finalized on its way out, so every sent invoice carries a number
+  const handleStatusChange = async (to: ManualStatus) => {
+    if (!invoiceId) return;
+    let number = invoiceNumber;
+    if (to === 'sent' && !invoice.finalizedAt) {
+      const issued = await finalizeInvoice();
+      if (!issued) return;
+      number = issued.id;
+    }
+    try {
+      const changes = transitionStatus(invoice, to);
+      setInvoice(prev => ({ ...prev, ...changes }));
+      // Issuing or voiding a credit note changes what the original invoice still owes
+      if (invoice.documentType === 'credit-note') {
+        const creditNote = { ...invoice, ...changes, invoiceNumber: number, id: invoiceId };
+        await (to === 'sent' ? applyCreditNote(creditNote) : revokeCreditNote(creditNote));
+      }
+      toast({
+        title: "Status Updated",
+        description: `${number || 'The invoice'} is now ${STATUS_LABELS[to].toLowerCase()}.`
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Change Status",
+        description: error instanceof Error ? error.message : "The status change is not allowed.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCreateCreditNote = async (itemIds: string[]) => {
+    if (!invoiceId) return;
+    // Save the original first; switching documents cancels its pending autosave
+    await saveInvoice(invoiceId, invoice, createdAtRef.current);
+    const creditNote = createCreditNote({ ...invoice, id: invoiceId }, itemIds, await listInvoices());
+    if (creditNote.items.length === 0) {
+      toast({
+        title: "Nothing Left to Credit",
+        description: "The selected lines have already been credited in full.",
+        variant: "destructive"
+      });
+      return;
+    }
+    const saved = await saveInvoice(createId(), creditNote);
+    loadInvoice(saved.id, saved, saved.createdAt);
+    setSavedListKey(key => key + 1);
+    toast({
+      title: "Credit Note Created",
+      description: `A draft credit note for ${invoiceNumber} is open for review.`
+    });
+  };
+
+  // Converting answers the quote: a quote that was only sent is accepted on the way
+  const handleConvertQuote = async () => {
+    if (!invoiceId) return;
+    const newId = createId();
+    const acceptance = invoice.status === 'sent' ? transitionStatus(invoice, 'accepted') : {};
+    const convertedTo: DocumentReference = { id: newId, number: '', type: 'invoice' };
+    await saveInvoice(invoiceId, { ...invoice, ...acceptance, convertedTo }, createdAtRef.current);
+    const saved = await saveInvoice(newId, convertQuoteToInvoice({ ...invoice, id: invoiceId }));
+    loadInvoice(saved.id, saved, saved.createdAt);
+    setSavedListKey(key => key + 1);
+    toast({
+      title: "Quote Converted",
+      description: `A draft invoice for quote ${invoiceNumber} is open for review.`
+    });
+  };
+
+  const handleOpenLinked = async (linked: DocumentReference) => {
+    const saved = await getInvoice(linked.id).catch(() => undefined);
+    if (!saved) {
+      toast({
+        title: "Document Not Found",
+        description: `The linked ${DOCUMENT_TYPE_LABELS[linked.type].toLowerCase()} no longer exists.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    await flushPendingSave();
+    loadInvoice(saved.id, saved, saved.createdAt);
+  };
+
+  // The overdue invoice remembers what has been billed, so charges are never billed twice
+  const handleBillLateCharge = async (charge: LateCharge) => {
+    if (!invoiceId) return;
+    const newId = createId();
+    const lateCharges = [...invoice.lateCharges, { invoiceId: newId, asOf: charge.asOf, amount: charge.charge }];
+    await saveInvoice(invoiceId, { ...invoice, lateCharges }, createdAtRef.current);
+    const saved = await saveInvoice(newId, createLateChargeInvoice({ ...invoice, id: invoiceId }, lateFeePolicy, charge));
+    loadInvoice(saved.id, saved, saved.createdAt);
+    setSavedListKey(key => key + 1);
+    toast({
+      title: "Late Charge Invoice Created",
+      description: `A draft invoice for the late charges on ${invoiceNumber} is open for review.`
+    });
+  };
+
+  const handleAddLateChargeLine = async (overdue: SavedInvoice, charge: LateCharge) => {
+    if (!invoiceId) return;
+    try {
+      await recordLateCharge(overdue.id, { invoiceId, asOf: charge.asOf, amount: charge.charge });
+      setItems(prev => [...prev, createLateChargeItem(overdue, lateFeePolicy, charge)]);
+      setSavedListKey(key => key + 1);
+    } catch (error) {
+      toast({
+        title: "Could Not Add Late Charge",
+        description: error instanceof Error ? error.message : "The late charge could not be recorded.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleTimesheetImport = async (lines: TimesheetLine[]) => {
+    if (!invoiceId || !ensureEditable()) return;
+    try {
+      await markTimeEntriesBilled(lines.flatMap(line => line.entryKeys), invoiceId);
+      setItems(prev => [...prev, ...lines.map(line => line.item)]);
+      toast({
+        title: "Timesheet Imported!",
+        description: `${lines.length} line${lines.length === 1 ? '' : 's'} added. These entries will be skipped in future imports.`
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Import Timesheet",
+        description: error instanceof Error ? error.message : "The billed entries could not be recorded.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEInvoiceImport = (result: EInvoiceImportResult) => {
+    if (!ensureEditable()) return;
+    updateInvoice(result.changes);
+    editInvoice(prev => ({
+      ...prev,
+      items: [...prev.items, ...result.items],
+      adjustments: [...prev.adjustments, ...result.adjustments]
+    }));
+    toast({
+      title: "E-Invoice Imported!",
+      description: `${result.items.length} line${result.items.length === 1 ? '' : 's'} added. Review the prices before sending.`
+    });
+  };
+
+  // Payments can be recorded on a sent (locked) invoice and drive its paid status
+  const handlePaymentsChange = (payments: Payment[]) => {
+    setInvoice(prev => ({ ...prev, ...applyPayments(prev, payments) }));
+  };
+
+  const handleRecordContact = (note: string) => {
+    setInvoice(prev => ({ ...prev, contacts: [...prev.contacts, { at: new Date().toISOString(), note }] }));
+  };
+
+  // Other tabs can push content into the invoice; tell the user why nothing happens once it is sent
+  const ensureEditable = () => {
+    if (!locked) return true;
+    toast({
+      title: "Invoice Locked",
+      description: "This invoice has been sent. Duplicate it to make changes.",
+      variant: "destructive"
+    });
+    return false;
+  };
+
+  // The open invoice is not reloaded from the list, which may not have its latest edits yet
+  const handleOpenInvoice = async (saved: SavedInvoice) => {
+    if (saved.id !== invoiceId) {
+      await flushPendingSave();
+      loadInvoice(saved.id, saved, saved.createdAt);
+    }
+    setActiveTab('invoice');
+  };
+
+  const handleNewInvoice = async () => {
+    await flushPendingSave();
+    await startBlankInvoice();
+    setActiveTab('invoice');
+  };
+
+  const handleNewQuote = async () => {
+    await flushPendingSave();
+    await startBlankInvoice('quote');
+    setActiveTab('invoice');
+  };
+
+  const addItem = (sectionId?: string) => {
+    setItems(prev => [...prev, { ...createEmptyItem(), sectionId }]);
+  };
+
+  const addSection = () => {
+    editInvoice(prev => ({ ...prev, sections: [...prev.sections, createSection()] }));
+  };
+
+  const updateSection = (id: string, changes: Partial<ItemSection>) => {
+    editInvoice(prev => ({
+      ...prev,
+      sections: prev.sections.map(section => section.id === id ? { ...section, ...changes } : section)
+    }));
+  };
+
+  const toggleSectionCollapsed = (id: string) => {
+    setCollapsedSections(prev => prev.includes(id) ? prev.filter(current => current !== id) : [...prev, id]);
+  };
+
+  // Rows are dragged by their grip; the drop lands before or after the row under the pointer
+  const handleDragStart = (event: React.DragEvent, row: DraggedRow) => {
+    dragging.current = row;
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', row.id);
+    const rowElement = event.currentTarget.closest('[data-drag-row]');
+    if (rowElement) event.dataTransfer.setDragImage(rowElement, 0, 0);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!dragging.current || locked) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+  };
+
+  const handleDropOnItem = (event: React.DragEvent, group: ItemGroup, index: number) => {
+    event.preventDefault();
+    const dragged = dragging.current;
+    dragging.current = null;
+    if (dragged?.type !== 'item') return;
+    const before = group.items[isUpperHalf(event) ? index : index + 1];
+    editInvoice(prev => ({
+      ...prev,
+      items: moveItem(prev, dragged.id, { sectionId: group.section?.id ?? null, beforeItemId: before?.id })
+    }));
+  };
+
+  const handleDropOnSection = (event: React.DragEvent, group: ItemGroup) => {
+    event.preventDefault();
+    const dragged = dragging.current;
+    dragging.current = null;
+    if (!dragged || !group.section) return;
+    const sectionId = group.section.id;
+    if (dragged.type === 'item') {
+      editInvoice(prev => ({
+        ...prev,
+        items: moveItem(prev, dragged.id, { sectionId, beforeItemId: group.items[0]?.id })
+      }));
+      return;
+    }
+    const index = invoice.sections.findIndex(section => section.id === sectionId);
+    const before = invoice.sections[isUpperHalf(event) ? index : index + 1];
+    editInvoice(prev => ({ ...prev, sections: moveSection(prev.sections, dragged.id, before?.id ?? null) }));
   };
 
   const removeItem = (id: string) => {
     if (items.length > 1) {
-      setItems(items.filter(item => item.id !== id));
+      setItems(prev => prev.filter(item => item.id !== id));
     }
   };
 
-  const updateItem = (id: string, field: keyof InvoiceItem, value: string | number) => {
-    setItems(items.map(item => {
-      if (item.id === id) {
-        const updatedItem = { ...item, [field]: value };
-        if (field === 'quantity' || field === 'rate') {
-          updatedItem.amount = updatedItem.quantity * updatedItem.rate;
+  const updateItem = (id: string, field: keyof InvoiceItem, value: string | number | string[] | undefined) => {
+    editInvoice(prev => ({
+      ...prev,
+      items: prev.items.map(item => {
+        if (item.id === id) {
+          const updatedItem = { ...item, [field]: value };
+          if (field === 'quantity' || field === 'rate') {
+            updatedItem.amount = calculateItemAmount(updatedItem, prev);
+          }
+          return updatedItem;
         }
-        return updatedItem;
-      }
-      return item;
+        return item;
+      })
     }));
   };
 
-  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
-  const tax = subtotal * 0.08; // 8% tax
-  const total = subtotal + tax;
+  // Quantity and rate fields keep what is typed, so they can be cleared while editing. The
+  // item follows whenever the text is a number; an empty field becomes 0 on blur.
+  const toItemNumber = (field: 'quantity' | 'rate', value: number) =>
+    field === 'quantity' ? roundQuantity(value, invoice.quantityPrecision) : value;
 
-  const handleExpenseItemsAdd = (expenseItems: any[]) => {
-    const newItems = expenseItems.map(expense => ({
-      id: Date.now().toString() + Math.random(),
-      description: expense.description,
-      quantity: 1,
-      rate: expense.amount,
-      amount: expense.amount
+  // The fields hold plain numbers rather than locale-formatted ones; a decimal comma typed
+  // where the browser allows it is read as a point
+  const numberText = (item: InvoiceItem, field: 'quantity' | 'rate') =>
+    numberDrafts[`${item.id}:${field}`] ?? String(item[field]);
+
+  const readNumber = (text: string) => parseFloat(text.replace(',', '.'));
+
+  const editNumber = (item: InvoiceItem, field: 'quantity' | 'rate', text: string) => {
+    setNumberDrafts(prev => ({ ...prev, [`${item.id}:${field}`]: text }));
+    const value = readNumber(text);
+    if (Number.isFinite(value)) updateItem(item.id, field, toItemNumber(field, value));
+  };
+
+  const settleNumber = (item: InvoiceItem, field: 'quantity' | 'rate') => {
+    const key = `${item.id}:${field}`;
+    const text = numberDrafts[key];
+    if (text === undefined) return;
+    const value = readNumber(text);
+    updateItem(item.id, field, toItemNumber(field, Number.isFinite(value) ? value : 0));
+    setNumberDrafts(({ [key]: _settled, ...rest }) => rest);
+  };
+
+  const selectCatalogEntry = (item: InvoiceItem, entry: CatalogEntry) => {
+    editInvoice(prev => ({
+      ...prev,
+      items: prev.items.map(current => {
+        if (current.id !== item.id) return current;
+        const updatedItem = applyCatalogEntry(current, entry, prev);
+        return { ...updatedItem, amount: calculateItemAmount(updatedItem, prev) };
+      })
     }));
+  };
+
+  const toggleItemTax = (item: InvoiceItem, taxId: string) => {
+    const current = getItemTaxIds(item, invoice);
+    const next = current.includes(taxId) ? current.filter(id => id !== taxId) : [...current, taxId];
+    updateItem(item.id, 'taxIds', next);
+  };
+
+  const { balance } = getPaymentSummary(invoice);
+  const itemGroups = groupItems(invoice);
+  const issuedInvoice = { ...invoice, sender: invoice.sender ?? businessProfile };
+  const invoiceDocument = buildInvoiceDocument(issuedInvoice);
+
+  const updateItemDiscount = (item: InvoiceItem, changes: Partial<Discount>) => {
+    const discount = { type: 'percent' as const, value: 0, ...item.discount, ...changes };
+    editInvoice(prev => ({
+      ...prev,
+      items: prev.items.map(current => current.id === item.id
+        ? { ...current, discount, amount: calculateItemAmount({ ...current, discount }, prev) }
+        : current)
+    }));
+  };
+
+  const handleExpenseItemsAdd = (expenseItems: any[]) => {
+    if (!ensureEditable()) return;
+    const newItems = expenseItems.map(expense => {
+      const item = { ...createEmptyItem(), description: expense.description, rate: expense.amount };
+      return { ...item, amount: calculateItemAmount(item, invoice) };
+    });
     setItems(prev => [...prev, ...newItems]);
   };
 
   const handleClientInfoUpdate = (info: ClientInfo) => {
-    setClientInfo(info);
+    if (!ensureEditable()) return;
+    setClientInfo(() => info);
   };
 
   const handleThemeApply = (theme: BrandTheme) => {
-    setAppliedTheme(theme);
-    // Apply theme to document
-    if (typeof document !== 'undefined') {
-      document.documentElement.style.setProperty('--invoice-primary', theme.colors.primary);
-      document.documentElement.style.setProperty('--invoice-secondary', theme.colors.secondary);
-      document.documentElement.style.setProperty('--invoice-accent', theme.colors.accent);
-    }
+    if (!ensureEditable()) return;
+    updateInvoice({ theme });
+    applyThemeVariables(theme);
   };
 
   const generatePDF = () => {
-    const doc = new jsPDF();
-    
-    // Set colors based on applied theme
-    const primaryColor = appliedTheme?.colors.primary || '#2563eb';
-    
-    // Header
-    doc.setFontSize(24);
-    doc.setTextColor(primaryColor);
-    doc.text('INVOICE', 20, 30);
-    
-    // Invoice details
-    doc.setFontSize(12);
-    doc.setTextColor('#000000');
-    doc.text(`Invoice #: ${invoiceNumber}`, 20, 50);
-    doc.text(`Date: ${invoiceDate}`, 20, 60);
-    doc.text(`Due Date: ${dueDate}`, 20, 70);
-    
-    // Client info
-    doc.text('Bill To:', 120, 50);
-    doc.text(clientInfo.name, 120, 60);
-    if (clientInfo.company) doc.text(clientInfo.company, 120, 70);
-    if (clientInfo.email) doc.text(clientInfo.email, 120, 80);
-    
-    // Items table
-    let yPosition = 100;
-    doc.text('Description', 20, yPosition);
-    doc.text('Qty', 120, yPosition);
-    doc.text('Rate', 140, yPosition);
-    doc.text('Amount', 170, yPosition);
-    
-    yPosition += 10;
-    items.forEach(item => {
-      doc.text(item.description, 20, yPosition);
-      doc.text(item.quantity.toString(), 120, yPosition);
-      doc.text(`$${item.rate.toFixed(2)}`, 140, yPosition);
-      doc.text(`$${item.amount.toFixed(2)}`, 170, yPosition);
-      yPosition += 10;
-    });
-    
-    // Totals
-    yPosition += 10;
-    doc.text(`Subtotal: $${subtotal.toFixed(2)}`, 140, yPosition);
-    doc.text(`Tax: $${tax.toFixed(2)}`, 140, yPosition + 10);
-    doc.setFontSize(14);
-    doc.text(`Total: $${total.toFixed(2)}`, 140, yPosition + 20);
-    
-    if (notes) {
-      doc.setFontSize(10);
-      doc.text('Notes:', 20, yPosition + 30);
-      doc.text(notes, 20, yPosition + 40);
-    }
-    
-    doc.save(`invoice-${invoiceNumber}.pdf`);
+    const doc = renderInvoicePdf(invoiceDocument);
+    doc.save(`${invoice.documentType}-${displayNumber}.pdf`);
     
     toast({
       title: "PDF Generated!",
@@ -203,9 +711,21 @@ const InvoiceGenerator: React.FC = () => {
         )}
       </div>
 
-      <Tabs defaultValue="invoice" className="w-full">
-        <TabsList className="grid w-full grid-cols-5">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-9">
           <TabsTrigger value="invoice">Invoice</TabsTrigger>
+          <TabsTrigger value="saved">
+            <FolderOpen className="h-4 w-4 mr-2" />
+            Saved
+          </TabsTrigger>
+          <TabsTrigger value="recurring">
+            <Repeat className="h-4 w-4 mr-2" />
+            Recurring
+          </TabsTrigger>
+          <TabsTrigger value="catalog">
+            <Package className="h-4 w-4 mr-2" />
+            Catalog
+          </TabsTrigger>
           <TabsTrigger value="expenses">
             <Bot className="h-4 w-4 mr-2" />
             Expenses
@@ -222,6 +742,10 @@ const InvoiceGenerator: React.FC = () => {
             <Bot className="h-4 w-4 mr-2" />
             Disputes
           </TabsTrigger>
+          <TabsTrigger value="settings">
+            <Settings className="h-4 w-4 mr-2" />
+            Settings
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="invoice" className="space-y-6">
@@ -231,163 +755,603 @@ const InvoiceGenerator: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <FileText className="h-5 w-5" />
-                  Invoice Details
+                  {DOCUMENT_TYPE_LABELS[invoice.documentType]} Details
                 </CardTitle>
                 <CardDescription>
-                  Fill in your invoice information
+                  {locked
+                    ? 'This invoice has been sent and can no longer be edited. Duplicate it to make changes.'
+                    : 'Fill in your invoice information'}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                {/* Basic Info */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {/* Numbering */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="numbering-series">Numbering Series</Label>
+                    <Select
+                      value={invoice.seriesId}
+                      onValueChange={(value) => updateInvoice({ seriesId: value })}
+                      disabled={!!invoice.finalizedAt}
+                    >
+                      <SelectTrigger id="numbering-series">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {seriesList.map((series) => (
+                          <SelectItem key={series.id} value={series.id}>{series.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="invoice-number">Invoice Number</Label>
                     <Input
                       id="invoice-number"
                       value={invoiceNumber}
-                      onChange={(e) => setInvoiceNumber(e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="invoice-date">Invoice Date</Label>
-                    <Input
-                      id="invoice-date"
-                      type="date"
-                      value={invoiceDate}
-                      onChange={(e) => setInvoiceDate(e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="due-date">Due Date</Label>
-                    <Input
-                      id="due-date"
-                      type="date"
-                      value={dueDate}
-                      onChange={(e) => setDueDate(e.target.value)}
+                      placeholder="Assigned when finalized"
+                      readOnly
+                      className="bg-gray-50"
                     />
                   </div>
+                  <Button
+                    onClick={finalizeInvoice}
+                    disabled={!!invoice.finalizedAt || isFinalizing}
+                    className="flex items-center gap-2"
+                  >
+                    <Lock className="h-4 w-4" />
+                    {invoice.finalizedAt ? 'Finalized' : 'Finalize Invoice'}
+                  </Button>
                 </div>
 
-                {/* Client Information */}
-                <div className="space-y-4">
-                  <Label className="text-lg font-semibold">Client Information</Label>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="client-name">Client Name</Label>
-                      <Input
-                        id="client-name"
-                        value={clientInfo.name}
-                        onChange={(e) => setClientInfo(prev => ({ ...prev, name: e.target.value }))}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="client-email">Email</Label>
-                      <Input
-                        id="client-email"
-                        type="email"
-                        value={clientInfo.email}
-                        onChange={(e) => setClientInfo(prev => ({ ...prev, email: e.target.value }))}
-                      />
-                    </div>
+                <InvoiceStatusPanel
+                  invoice={invoice}
+                  today={today}
+                  isBusy={isFinalizing}
+                  onTransition={handleStatusChange}
+                  onRecordContact={handleRecordContact}
+                />
+
+                {(canCreditInvoice(invoice) || canConvertQuote(invoice) || invoice.reference || invoice.convertedTo) && (
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {[invoice.reference, invoice.convertedTo].map((linked) => linked && (
+                      <Button
+                        key={linked.id}
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleOpenLinked(linked)}
+                        className="flex items-center gap-2"
+                      >
+                        <Link className="h-4 w-4" />
+                        {DOCUMENT_TYPE_LABELS[linked.type]} {linked.number || 'DRAFT'}
+                      </Button>
+                    ))}
+                    {canCreditInvoice(invoice) && invoiceId && (
+                      <CreditNoteDialog invoice={invoice} invoiceId={invoiceId} onCreate={handleCreateCreditNote} />
+                    )}
+                    {canConvertQuote(invoice) && (
+                      <Button size="sm" onClick={handleConvertQuote} className="flex items-center gap-2">
+                        <FileOutput className="h-4 w-4" />
+                        Convert to Invoice
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                <PaymentsLedger invoice={invoice} onChange={handlePaymentsChange} />
+
+                <LateChargesPanel
+                  invoice={invoice}
+                  invoiceId={invoiceId}
+                  policy={lateFeePolicy}
+                  today={today}
+                  refreshKey={savedListKey}
+                  onBillAsInvoice={handleBillLateCharge}
+                  onAddLine={handleAddLateChargeLine}
+                />
+
+                <fieldset disabled={locked} className="space-y-6">
+                  {/* Basic Info */}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="client-company">Company</Label>
+                      <Label htmlFor="invoice-date">{DOCUMENT_TYPE_LABELS[invoice.documentType]} Date</Label>
                       <Input
-                        id="client-company"
-                        value={clientInfo.company || ''}
-                        onChange={(e) => setClientInfo(prev => ({ ...prev, company: e.target.value }))}
+                        id="invoice-date"
+                        type="date"
+                        value={invoiceDate}
+                        disabled={!!invoice.finalizedAt}
+                        onChange={(e) => updateInvoice({ invoiceDate: e.target.value })}
                       />
                     </div>
+                    {invoice.documentType === 'quote' ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="valid-until">Valid Until</Label>
+                        <Input
+                          id="valid-until"
+                          type="date"
+                          value={validUntil}
+                          onChange={(e) => updateInvoice({ validUntil: e.target.value })}
+                        />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="due-date">Due Date</Label>
+                        <Input
+                          id="due-date"
+                          type="date"
+                          value={dueDate}
+                          readOnly={!!invoice.paymentTerms}
+                          className={invoice.paymentTerms ? 'bg-gray-50' : undefined}
+                          onChange={(e) => updateInvoice({ dueDate: e.target.value })}
+                        />
+                      </div>
+                    )}
                     <div className="space-y-2">
-                      <Label htmlFor="client-phone">Phone</Label>
-                      <Input
-                        id="client-phone"
-                        value={clientInfo.phone || ''}
-                        onChange={(e) => setClientInfo(prev => ({ ...prev, phone: e.target.value }))}
-                      />
+                      <Label htmlFor="currency">Currency</Label>
+                      <Select value={currency} onValueChange={(value) => updateInvoice({ currency: value })}>
+                        <SelectTrigger id="currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.map(({ code, name }) => (
+                            <SelectItem key={code} value={code}>
+                              {code} - {name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="client-address">Address</Label>
-                    <Textarea
-                      id="client-address"
-                      value={clientInfo.address || ''}
-                      onChange={(e) => setClientInfo(prev => ({ ...prev, address: e.target.value }))}
-                    />
-                  </div>
-                </div>
 
-                {/* Invoice Items */}
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <Label className="text-lg font-semibold">Invoice Items</Label>
-                    <Button size="sm" onClick={addItem} className="flex items-center gap-2">
-                      <Plus className="h-4 w-4" />
-                      Add Item
-                    </Button>
-                  </div>
-                  
-                  <div className="space-y-3">
-                    {items.map((item) => (
-                      <div key={item.id} className="grid grid-cols-12 gap-2 items-end">
-                        <div className="col-span-5">
-                          <Label className="text-sm">Description</Label>
-                          <Input
-                            placeholder="Item description"
-                            value={item.description}
-                            onChange={(e) => updateItem(item.id, 'description', e.target.value)}
-                          />
-                        </div>
-                        <div className="col-span-2">
-                          <Label className="text-sm">Quantity</Label>
-                          <Input
-                            type="number"
-                            min="1"
-                            value={item.quantity}
-                            onChange={(e) => updateItem(item.id, 'quantity', parseInt(e.target.value) || 1)}
-                          />
-                        </div>
-                        <div className="col-span-2">
-                          <Label className="text-sm">Rate</Label>
+                  {/* Payment Terms */}
+                  {invoice.documentType !== 'credit-note' && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="payment-terms">Payment Terms</Label>
+                        <Select
+                          value={invoice.paymentTerms?.id || 'custom'}
+                          onValueChange={(value) => updateInvoice({
+                            paymentTerms: PAYMENT_TERMS.find(terms => terms.id === value) || null
+                          })}
+                        >
+                          <SelectTrigger id="payment-terms">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="custom">Custom due date</SelectItem>
+                            {PAYMENT_TERMS.map((terms) => (
+                              <SelectItem key={terms.id} value={terms.id}>
+                                {terms.basis === 'end-of-month' ? 'End of month + N days' : getTermsName(terms)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {invoice.paymentTerms?.basis === 'end-of-month' && (
+                        <div className="space-y-2">
+                          <Label htmlFor="payment-terms-days">Days After Month End</Label>
                           <Input
+                            id="payment-terms-days"
                             type="number"
-                            step="0.01"
-                            value={item.rate}
-                            onChange={(e) => updateItem(item.id, 'rate', parseFloat(e.target.value) || 0)}
+                            min="0"
+                            value={invoice.paymentTerms.days}
+                            onChange={(e) => updateTermsDays(Math.max(parseInt(e.target.value) || 0, 0))}
                           />
                         </div>
-                        <div className="col-span-2">
-                          <Label className="text-sm">Amount</Label>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Client Information */}
+                  <div className="space-y-4">
+                    <Label className="text-lg font-semibold">Client Information</Label>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="client-name">Client Name</Label>
+                        <Input
+                          id="client-name"
+                          value={clientInfo.name}
+                          disabled={!!invoice.finalizedAt}
+                          onChange={(e) => setClientInfo(prev => ({ ...prev, name: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-email">Email</Label>
+                        <Input
+                          id="client-email"
+                          type="email"
+                          value={clientInfo.email}
+                          onChange={(e) => setClientInfo(prev => ({ ...prev, email: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-company">Company</Label>
+                        <Input
+                          id="client-company"
+                          value={clientInfo.company || ''}
+                          disabled={!!invoice.finalizedAt}
+                          onChange={(e) => setClientInfo(prev => ({ ...prev, company: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-phone">Phone</Label>
+                        <Input
+                          id="client-phone"
+                          value={clientInfo.phone || ''}
+                          onChange={(e) => setClientInfo(prev => ({ ...prev, phone: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-number-prefix">Number Prefix</Label>
+                        <Input
+                          id="client-number-prefix"
+                          placeholder={getClientPrefix(clientInfo)}
+                          value={clientInfo.numberPrefix || ''}
+                          disabled={!!invoice.finalizedAt}
+                          onChange={(e) => setClientInfo(prev => ({ ...prev, numberPrefix: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="buyer-reference">
+                          {clientInfo.eInvoiceFormat === 'xrechnung' ? 'Leitweg-ID / Buyer Reference' : 'Buyer Reference / PO'}
+                        </Label>
+                        <Input
+                          id="buyer-reference"
+                          value={invoice.buyerReference}
+                          onChange={(e) => updateInvoice({ buyerReference: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-country">Country Code</Label>
+                        <Input
+                          id="client-country"
+                          placeholder="e.g. NL"
+                          maxLength={2}
+                          value={clientInfo.countryCode || ''}
+                          onChange={(e) => setClientInfo(prev => ({ ...prev, countryCode: e.target.value.toUpperCase() }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-tax-id">VAT ID</Label>
+                        <Input
+                          id="client-tax-id"
+                          value={clientInfo.taxId || ''}
+                          onChange={(e) => setClientInfo(prev => ({ ...prev, taxId: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-endpoint">Peppol Participant ID</Label>
+                        <Input
+                          id="client-endpoint"
+                          placeholder="e.g. 0106:12345678; defaults to the email"
+                          value={clientInfo.endpointId || ''}
+                          onChange={(e) => setClientInfo(prev => ({ ...prev, endpointId: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-e-invoice-format">E-Invoice Format</Label>
+                        <Select
+                          value={clientInfo.eInvoiceFormat || 'none'}
+                          onValueChange={(value) => setClientInfo(prev => ({
+                            ...prev,
+                            eInvoiceFormat: E_INVOICE_FORMATS.find(entry => entry.value === value)?.value
+                          }))}
+                        >
+                          <SelectTrigger id="client-e-invoice-format">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No preference</SelectItem>
+                            {E_INVOICE_FORMATS.map((entry) => (
+                              <SelectItem key={entry.value} value={entry.value}>{entry.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="client-locale">Number Format</Label>
+                        <Select
+                          value={clientInfo.locale || 'default'}
+                          onValueChange={(value) => setClientInfo(prev => ({
+                            ...prev,
+                            locale: LOCALES.find(entry => entry.code === value)?.code
+                          }))}
+                        >
+                          <SelectTrigger id="client-locale">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">Browser default</SelectItem>
+                            {LOCALES.map((entry) => (
+                              <SelectItem key={entry.code} value={entry.code}>
+                                {entry.name} ({formatMoney(1234.5, currency, entry.code)})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {clientInfo.eInvoiceFormat === 'fatturapa' && (
+                        <div className="space-y-2">
+                          <Label htmlFor="client-recipient-code">Recipient Code (SdI)</Label>
                           <Input
-                            value={`$${item.amount.toFixed(2)}`}
-                            readOnly
-                            className="bg-gray-50"
+                            id="client-recipient-code"
+                            placeholder="7 characters, or 6 for public administrations"
+                            maxLength={7}
+                            value={clientInfo.recipientCode || ''}
+                            onChange={(e) => setClientInfo(prev => ({ ...prev, recipientCode: e.target.value.toUpperCase() }))}
                           />
                         </div>
-                        <div className="col-span-1">
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={() => removeItem(item.id)}
-                            disabled={items.length === 1}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="client-address">Address</Label>
+                      <Textarea
+                        id="client-address"
+                        value={clientInfo.address || ''}
+                        onChange={(e) => setClientInfo(prev => ({ ...prev, address: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Invoice Items */}
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-lg font-semibold">Invoice Items</Label>
+                      <div className="flex gap-2">
+                        <TimesheetImportDialog invoice={invoice} disabled={locked} onImport={handleTimesheetImport} />
+                        <EInvoiceImportDialog invoice={invoice} disabled={locked} onImport={handleEInvoiceImport} />
+                        <Button size="sm" variant="outline" onClick={addSection} className="flex items-center gap-2">
+                          <Rows3 className="h-4 w-4" />
+                          Add Section
+                        </Button>
+                        <Button size="sm" onClick={() => addItem()} className="flex items-center gap-2">
+                          <Plus className="h-4 w-4" />
+                          Add Item
+                        </Button>
                       </div>
-                    ))}
+                    </div>
+                  
+                    <datalist id="unit-presets">
+                      {UNIT_PRESETS.map((unit) => <option key={unit} value={unit} />)}
+                    </datalist>
+
+                    <div className="space-y-3">
+                      {itemGroups.map((group) => {
+                        const { section } = group;
+                        const collapsed = !!section && collapsedSections.includes(section.id);
+                        return (
+                          <div key={section?.id ?? 'ungrouped'} className="space-y-3">
+                            {section && (
+                              <ItemSectionHeader
+                                section={section}
+                                subtotal={formatMoney(getSectionSubtotal(group.items), currency)}
+                                itemCount={group.items.length}
+                                collapsed={collapsed}
+                                onChange={(changes) => updateSection(section.id, changes)}
+                                onToggleCollapsed={() => toggleSectionCollapsed(section.id)}
+                                onAddItem={() => addItem(section.id)}
+                                onRemove={() => editInvoice(prev => ({ ...prev, ...removeSection(prev, section.id) }))}
+                                onDragStart={(e) => handleDragStart(e, { type: 'section', id: section.id })}
+                                onDragOver={handleDragOver}
+                                onDrop={(e) => handleDropOnSection(e, group)}
+                              />
+                            )}
+                            {!collapsed && group.items.map((item, index) => (
+                              <div
+                                key={item.id}
+                                data-drag-row
+                                className="grid grid-cols-12 gap-2 items-end"
+                                onDragOver={handleDragOver}
+                                onDrop={(e) => handleDropOnItem(e, group, index)}
+                              >
+                                <div className="col-span-4">
+                                  <Label className="text-sm flex items-center gap-1">
+                                    <span
+                                      draggable
+                                      onDragStart={(e) => handleDragStart(e, { type: 'item', id: item.id })}
+                                      className="cursor-grab text-gray-400"
+                                      title="Drag to reorder"
+                                    >
+                                      <GripVertical className="h-3 w-3" />
+                                    </span>
+                                    Description
+                                  </Label>
+                                  <DescriptionAutocomplete
+                                    placeholder="Item description"
+                                    value={item.description}
+                                    catalog={catalog}
+                                    currency={invoice.currency}
+                                    onChange={(value) => updateItem(item.id, 'description', value)}
+                                    onSelect={(entry) => selectCatalogEntry(item, entry)}
+                                  />
+                                </div>
+                                <div className="col-span-3">
+                                  <Label className="text-sm">Quantity / Unit</Label>
+                                  <div className="flex gap-1">
+                                    <Input
+                                      type="number"
+                                      min={invoice.documentType === 'credit-note' ? undefined : 0}
+                                      step={Math.pow(10, -invoice.quantityPrecision)}
+                                      value={numberText(item, 'quantity')}
+                                      onChange={(e) => editNumber(item, 'quantity', e.target.value)}
+                                      onBlur={() => settleNumber(item, 'quantity')}
+                                    />
+                                    <Input
+                                      list="unit-presets"
+                                      placeholder="Unit"
+                                      value={item.unit ?? ''}
+                                      onChange={(e) => updateItem(item.id, 'unit', e.target.value || undefined)}
+                                      className="w-20 shrink-0"
+                                    />
+                                  </div>
+                                </div>
+                                <div className="col-span-2">
+                                  <Label className="text-sm">Rate</Label>
+                                  <Input
+                                    type="number"
+                                    step={Math.pow(10, -getCurrencyDigits(currency))}
+                                    value={numberText(item, 'rate')}
+                                    onChange={(e) => editNumber(item, 'rate', e.target.value)}
+                                    onBlur={() => settleNumber(item, 'rate')}
+                                  />
+                                </div>
+                                <div className="col-span-2">
+                                  <Label className="text-sm">Amount</Label>
+                                  <Input
+                                    value={formatMoney(item.amount, currency)}
+                                    readOnly
+                                    className="bg-gray-50"
+                                  />
+                                </div>
+                                <div className="col-span-1">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => removeItem(item.id)}
+                                    disabled={items.length === 1}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                                <div className="col-span-12 flex flex-wrap items-center gap-2">
+                                  <span className="text-xs text-gray-600">Discount:</span>
+                                  <Select
+                                    value={item.discount?.type || 'percent'}
+                                    onValueChange={(value: Discount['type']) => updateItemDiscount(item, { type: value })}
+                                  >
+                                    <SelectTrigger className="h-6 w-20 text-xs">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="percent">%</SelectItem>
+                                      <SelectItem value="fixed">Fixed</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    className="h-6 w-20 text-xs"
+                                    value={item.discount?.value || ''}
+                                    onChange={(e) => updateItemDiscount(item, { value: parseFloat(e.target.value) || 0 })}
+                                  />
+                                  <span className="text-xs text-gray-600 ml-2">Taxes:</span>
+                                  {invoice.taxRates.map((taxRate) => (
+                                    <Button
+                                      key={taxRate.id}
+                                      size="sm"
+                                      variant={getItemTaxIds(item, invoice).includes(taxRate.id) ? 'default' : 'outline'}
+                                      className="h-6 px-2 text-xs"
+                                      onClick={() => toggleItemTax(item, taxRate.id)}
+                                    >
+                                      {taxRate.name}
+                                    </Button>
+                                  ))}
+                                  {item.taxIds && (
+                                    <Button
+                                      size="sm"
+                                      variant="link"
+                                      className="h-6 px-2 text-xs"
+                                      onClick={() => updateItem(item.id, 'taxIds', undefined)}
+                                    >
+                                      Use invoice taxes
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
                   </div>
-                </div>
 
-                {/* Notes */}
-                <div className="space-y-2">
-                  <Label htmlFor="notes">Notes</Label>
-                  <Textarea
-                    id="notes"
-                    placeholder="Additional notes or terms..."
-                    value={notes}
-                    onChange={(e) => setNotes(e.target.value)}
+                  <AdjustmentsEditor
+                    adjustments={invoice.adjustments}
+                    lineDiscountTiming={invoice.lineDiscountTiming}
+                    onChange={updateInvoice}
                   />
-                </div>
+
+                  <TaxRatesEditor
+                    taxRates={invoice.taxRates}
+                    taxIds={invoice.taxIds}
+                    taxInclusive={invoice.taxInclusive}
+                    onChange={updateInvoice}
+                  />
+
+                  {/* Rounding */}
+                  <div className="space-y-4">
+                    <Label className="text-lg font-semibold">Rounding</Label>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="rounding-mode">Mode</Label>
+                        <Select
+                          value={invoice.rounding.mode}
+                          onValueChange={(value: RoundingMode) => updateRounding({ mode: value })}
+                        >
+                          <SelectTrigger id="rounding-mode">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROUNDING_MODES.map(({ value, label }) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="rounding-strategy">Round</Label>
+                        <Select
+                          value={invoice.rounding.strategy}
+                          onValueChange={(value: RoundingStrategy) => updateRounding({ strategy: value })}
+                        >
+                          <SelectTrigger id="rounding-strategy">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="per-line">Each line</SelectItem>
+                            <SelectItem value="per-total">Totals only</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="cash-increment">Cash Rounding</Label>
+                        <Input
+                          id="cash-increment"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="e.g. 0.05"
+                          value={invoice.rounding.cashIncrement || ''}
+                          onChange={(e) => updateRounding({ cashIncrement: parseFloat(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="quantity-precision">Quantity Decimals</Label>
+                        <Input
+                          id="quantity-precision"
+                          type="number"
+                          min="0"
+                          max={MAX_QUANTITY_PRECISION}
+                          value={invoice.quantityPrecision}
+                          onChange={(e) => updateInvoice({
+                            quantityPrecision: Math.min(Math.max(parseInt(e.target.value) || 0, 0), MAX_QUANTITY_PRECISION)
+                          })}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Notes */}
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes</Label>
+                    <Textarea
+                      id="notes"
+                      placeholder="Additional notes or terms..."
+                      value={notes}
+                      onChange={(e) => updateInvoice({ notes: e.target.value })}
+                    />
+                  </div>
+                </fieldset>
               </CardContent>
             </Card>
 
@@ -400,115 +1364,48 @@ const InvoiceGenerator: React.FC = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div 
-                  ref={invoiceRef} 
-                  className="p-6 bg-white border rounded-lg space-y-6"
-                  style={{
-                    color: appliedTheme?.colors.secondary || '#1f2937',
-                    fontFamily: appliedTheme?.fonts.body || 'inherit'
-                  }}
-                >
-                  {/* Header */}
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <h2 
-                        className="text-3xl font-bold"
-                        style={{
-                          color: appliedTheme?.colors.primary || '#2563eb',
-                          fontFamily: appliedTheme?.fonts.heading || 'inherit'
-                        }}
-                      >
-                        INVOICE
-                      </h2>
-                      <p className="text-sm text-gray-600">#{invoiceNumber}</p>
-                    </div>
-                    <div className="text-right text-sm">
-                      <p><strong>Date:</strong> {invoiceDate}</p>
-                      <p><strong>Due:</strong> {dueDate}</p>
-                    </div>
-                  </div>
-
-                  {/* Client Info */}
-                  <div>
-                    <h3 className="font-semibold mb-2" style={{ color: appliedTheme?.colors.primary || '#2563eb' }}>
-                      Bill To:
-                    </h3>
-                    <div className="text-sm">
-                      <p className="font-medium">{clientInfo.name}</p>
-                      {clientInfo.company && <p>{clientInfo.company}</p>}
-                      {clientInfo.email && <p>{clientInfo.email}</p>}
-                      {clientInfo.phone && <p>{clientInfo.phone}</p>}
-                      {clientInfo.address && <p className="whitespace-pre-line">{clientInfo.address}</p>}
-                    </div>
-                  </div>
-
-                  {/* Items Table */}
-                  <div>
-                    <table className="w-full text-sm">
-                      <thead>
-                        <tr className="border-b" style={{ borderColor: appliedTheme?.colors.accent || '#f59e0b' }}>
-                          <th className="text-left py-2">Description</th>
-                          <th className="text-center py-2">Qty</th>
-                          <th className="text-right py-2">Rate</th>
-                          <th className="text-right py-2">Amount</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {items.map((item) => (
-                          <tr key={item.id} className="border-b border-gray-100">
-                            <td className="py-2">{item.description}</td>
-                            <td className="text-center py-2">{item.quantity}</td>
-                            <td className="text-right py-2">${item.rate.toFixed(2)}</td>
-                            <td className="text-right py-2">${item.amount.toFixed(2)}</td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-
-                  {/* Totals */}
-                  <div className="flex justify-end">
-                    <div className="w-64 space-y-2">
-                      <div className="flex justify-between">
-                        <span>Subtotal:</span>
-                        <span>${subtotal.toFixed(2)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span>Tax (8%):</span>
-                        <span>${tax.toFixed(2)}</span>
-                      </div>
-                      <Separator />
-                      <div className="flex justify-between font-bold text-lg" style={{ color: appliedTheme?.colors.primary || '#2563eb' }}>
-                        <span>Total:</span>
-                        <span>${total.toFixed(2)}</span>
-                      </div>
-                    </div>
-                  </div>
+                <InvoicePreview ref={invoiceRef} document={invoiceDocument} />
 
-                  {/* Notes */}
-                  {notes && (
-                    <div>
-                      <h3 className="font-semibold mb-2" style={{ color: appliedTheme?.colors.primary || '#2563eb' }}>
-                        Notes:
-                      </h3>
-                      <p className="text-sm whitespace-pre-line">{notes}</p>
-                    </div>
-                  )}
-                </div>
-
-                <div className="mt-6">
+                <div className="mt-6 space-y-2">
                   <Button onClick={generatePDF} className="w-full flex items-center gap-2">
                     <Download className="h-4 w-4" />
                     Download PDF
                   </Button>
+                  <EInvoiceExportDialog
+                    invoice={issuedInvoice}
+                    document={invoiceDocument}
+                    fileName={`${invoice.documentType}-${displayNumber}`}
+                  />
                 </div>
               </CardContent>
             </Card>
           </div>
         </TabsContent>
 
+        <TabsContent value="saved">
+          <InvoiceList
+            currentInvoiceId={invoiceId}
+            refreshKey={savedListKey}
+            onOpen={handleOpenInvoice}
+            onNew={handleNewInvoice}
+            onNewQuote={handleNewQuote}
+          />
+        </TabsContent>
+
+        <TabsContent value="recurring">
+          <RecurringProfiles
+            currentInvoice={invoice}
+            onOpen={handleOpenInvoice}
+            onGenerated={() => setSavedListKey(key => key + 1)}
+          />
+        </TabsContent>
+
+        <TabsContent value="catalog" className="space-y-6">
+          <CatalogManager entries={catalog} onChange={loadCatalog} />
+        </TabsContent>
+
         <TabsContent value="expenses">
-          <ExpenseReceiptMatcher onAddToInvoice={handleExpenseItemsAdd} />
+          <ExpenseReceiptMatcher currency={currency} onAddToInvoice={handleExpenseItemsAdd} />
         </TabsContent>
 
         <TabsContent value="branding">
@@ -522,14 +1419,22 @@ const InvoiceGenerator: React.FC = () => {
         <TabsContent value="disputes">
           <DisputeResolverBot 
             invoiceContext={{
-              invoiceNumber,
+              invoiceNumber: displayNumber,
               clientName: clientInfo.name,
-              amount: total,
-              daysOverdue: 0,
-              previousContacts: 0
+              amount: balance,
+              currency,
+              daysOverdue: getDaysOverdue(invoice, today),
+              previousContacts: getPreviousContacts(invoice),
+              lateCharges: calculateLateCharge(invoice, lateFeePolicy, today)?.accrued ?? 0
             }}
           />
         </TabsContent>
+
+        <TabsContent value="settings" className="space-y-6">
+          <BusinessProfileSettings onSaved={setBusinessProfile} />
+          <LateFeePolicySettings onSaved={setLateFeePolicy} />
+          <NumberingSeriesManager />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FolderOpen, Copy, Trash2, Plus, Loader2, FileJson, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import { DOCUMENT_TYPE_LABELS, getDisplayNumber, todayISO } from '@/lib/invoice';
+import { parseInvoiceFile, serializeInvoice } from '@/lib/invoice-json';
+import { releaseLateCharges } from '@/lib/late-fees-store';
+import { calculateTotals } from '@/lib/pricing';
+import { getEffectiveStatus, STATUS_BADGE_CLASSES, STATUS_LABELS } from '@/lib/status';
+import { listInvoices, deleteInvoice, duplicateInvoice, importInvoice, type SavedInvoice } from '@/lib/invoice-store';
+
+interface InvoiceListProps {
+  currentInvoiceId: string | null;
+  refreshKey: number;
+  onOpen: (invoice: SavedInvoice) => void;
+  onNew: () => void | Promise<void>;
+  onNewQuote: () => void;
+}
+
+const InvoiceList: React.FC<InvoiceListProps> = ({ currentInvoiceId, refreshKey, onOpen, onNew, onNewQuote }) => {
+  const [invoices, setInvoices] = useState<SavedInvoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const today = todayISO();
+
+  const loadInvoices = useCallback(async () => {
+    try {
+      setInvoices(await listInvoices());
+    } catch (error) {
+      toast({
+        title: "Could Not Load Invoices",
+        description: "Saved invoices are unavailable in this browser.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices, refreshKey]);
+
+  const handleDuplicate = async (invoice: SavedInvoice) => {
+    await duplicateInvoice(invoice.id);
+    await loadInvoices();
+    toast({
+      title: "Invoice Duplicated!",
+      description: `Created a new draft from ${getDisplayNumber(invoice)}.`
+    });
+  };
+
+  const handleExport = (invoice: SavedInvoice) => {
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...data } = invoice;
+    const blob = new Blob([serializeInvoice(data)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${invoice.documentType}-${getDisplayNumber(invoice)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const saved = await importInvoice(parseInvoiceFile(await file.text()));
+      await loadInvoices();
+      onOpen(saved);
+      toast({
+        title: "Invoice Imported!",
+        description: `${getDisplayNumber(saved)} was added to your saved invoices.`
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Import Invoice",
+        description: error instanceof Error ? error.message : "The file could not be read.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (invoice: SavedInvoice) => {
+    if (invoice.finalizedAt) {
+      toast({
+        title: "Cannot Delete",
+        description: `${invoice.invoiceNumber} has been finalized and must be kept for your records.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    if (invoice.id === currentInvoiceId) {
+      await onNew();
+    }
+    await deleteInvoice(invoice.id);
+    await releaseLateCharges(invoice.id);
+    await loadInvoices();
+    toast({
+      title: "Invoice Deleted",
+      description: `${getDisplayNumber(invoice)} has been removed.`
+    });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FolderOpen className="h-5 w-5" />
+              Saved Invoices
+            </CardTitle>
+            <CardDescription>
+              Invoices are saved automatically in this browser as you edit them
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button size="sm" variant="outline" onClick={onNewQuote} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              New Quote
+            </Button>
+            <Button size="sm" onClick={onNew} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              New Invoice
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && (
+          <div className="text-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          </div>
+        )}
+
+        {!isLoading && invoices.length === 0 && (
+          <p className="text-center py-8 text-sm text-gray-600">
+            No saved invoices yet. Start editing an invoice and it will appear here.
+          </p>
+        )}
+
+        {invoices.map((invoice) => (
+          <div
+            key={invoice.id}
+            className={`p-4 border rounded-lg ${
+              invoice.id === currentInvoiceId ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex-1">
+                <div className="flex items-center gap-2 mb-1">
+                  <h4 className="font-semibold">{getDisplayNumber(invoice)}</h4>
+                  <Badge variant="outline" className={STATUS_BADGE_CLASSES[getEffectiveStatus(invoice, today)]}>
+                    {STATUS_LABELS[getEffectiveStatus(invoice, today)]}
+                  </Badge>
+                  {invoice.id === currentInvoiceId && <Badge variant="outline">Open</Badge>}
+                  {invoice.recurringProfileId && <Badge variant="secondary">Recurring</Badge>}
+                  {invoice.documentType !== 'invoice' && <Badge variant="secondary">{DOCUMENT_TYPE_LABELS[invoice.documentType]}</Badge>}
+                </div>
+                <div className="flex items-center gap-4 text-sm text-gray-600">
+                  <span>{invoice.clientInfo.company || invoice.clientInfo.name || 'No client'}</span>
+                  <span>Date: {invoice.invoiceDate}</span>
+                  <span className="font-semibold">{formatMoney(calculateTotals(invoice).total, invoice.currency)}</span>
+                  <span>Updated {new Date(invoice.updatedAt).toLocaleString()}</span>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => onOpen(invoice)}>
+                  Open
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleDuplicate(invoice)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleExport(invoice)} title="Export as JSON">
+                  <FileJson className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(invoice)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvoiceList;
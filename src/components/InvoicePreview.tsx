@@ -0,0 +1,148 @@
+import React from 'react';
+import { Separator } from '@/components/ui/separator';
+import type { DocumentAlign, DocumentTable, InvoiceDocument } from '@/lib/invoice-document';
+
+interface InvoicePreviewProps {
+  document: InvoiceDocument;
+}
+
+const alignClass: Record<DocumentAlign, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right'
+};
+
+interface PreviewTableProps {
+  table: DocumentTable;
+  borderColor: string;
+  headingColor: string;
+}
+
+const PreviewTable: React.FC<PreviewTableProps> = ({ table, borderColor, headingColor }) => (
+  <table className="w-full text-sm table-fixed">
+    <colgroup>
+      {table.columns.map((column) => (
+        <col key={column.key} style={{ width: `${column.width}%` }} />
+      ))}
+    </colgroup>
+    <thead>
+      <tr className="border-b" style={{ borderColor }}>
+        {table.columns.map((column) => (
+          <th key={column.key} className={`${alignClass[column.align]} py-2`}>{column.header}</th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {table.rows.map((row) => row.kind === 'heading' ? (
+        <tr key={row.id} className="border-b border-gray-100">
+          <td colSpan={table.columns.length} className="pt-4 pb-2 font-semibold" style={{ color: headingColor }}>
+            {row.cells[0]}
+          </td>
+        </tr>
+      ) : (
+        <tr key={row.id} className={`border-b border-gray-100 ${row.kind === 'subtotal' ? 'font-semibold' : ''}`}>
+          {row.cells.map((cell, index) => (
+            <td key={table.columns[index].key} className={`${alignClass[table.columns[index].align]} py-2 break-words`}>
+              {cell}
+            </td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Renders the same document model as the PDF, see src/lib/pdf.ts
+const InvoicePreview = React.forwardRef<HTMLDivElement, InvoicePreviewProps>(({ document }, ref) => {
+  const { theme } = document;
+  const headingStyle = { color: theme.primary, fontFamily: theme.headingFont };
+
+  return (
+    <div
+      ref={ref}
+      className="p-6 bg-white border rounded-lg space-y-6"
+      style={{ color: theme.secondary, fontFamily: theme.bodyFont }}
+    >
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          {document.logo && <img src={document.logo} alt="" className="max-h-16 max-w-[12rem] mb-3 object-contain" />}
+          <h2 className="text-3xl font-bold" style={headingStyle}>
+            {document.title}
+          </h2>
+          <p className="text-sm text-gray-600">#{document.number}</p>
+        </div>
+        <div className="text-right text-sm">
+          {document.fields.map((field) => (
+            <p key={field.label}><strong>{field.label}:</strong> {field.value}</p>
+          ))}
+        </div>
+      </div>
+
+      {/* Parties */}
+      <div className="grid grid-cols-2 gap-4">
+        {document.parties.map((party) => (
+          <div key={party.heading}>
+            <h3 className="font-semibold mb-2" style={headingStyle}>
+              {party.heading}
+            </h3>
+            <div className="text-sm">
+              <p className="font-medium">{party.name}</p>
+              {party.lines.map((line, index) => (
+                <p key={index} className="whitespace-pre-line">{line}</p>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Items */}
+      <PreviewTable table={document.items} borderColor={theme.accent} headingColor={theme.primary} />
+
+      {/* Totals */}
+      <div className="flex justify-end">
+        <div className="w-64 space-y-2">
+          {document.totals.map((total) => (
+            <div key={total.id} className="flex justify-between">
+              <span>{total.label}:</span>
+              <span>{total.value}</span>
+            </div>
+          ))}
+          <Separator />
+          <div className="flex justify-between font-bold text-lg" style={{ color: theme.primary }}>
+            <span>{document.grandTotal.label}:</span>
+            <span>{document.grandTotal.value}</span>
+          </div>
+          {document.balance.map((row) => (
+            <div key={row.id} className="flex justify-between font-semibold">
+              <span>{row.label}:</span>
+              <span>{row.value}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {document.sections.map((section) => (
+        <div key={section.id}>
+          <h3 className="font-semibold mb-2" style={headingStyle}>
+            {section.heading}
+          </h3>
+          {section.table && <PreviewTable table={section.table} borderColor={theme.accent} headingColor={theme.primary} />}
+          {section.text && <p className="text-sm whitespace-pre-line">{section.text}</p>}
+        </div>
+      ))}
+
+      {document.footer.length > 0 && (
+        <div className="pt-3 border-t text-xs text-gray-500 space-y-1">
+          {document.footer.map((line, index) => (
+            <p key={index}>{line}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+InvoicePreview.displayName = 'InvoicePreview';
+
+export default InvoicePreview;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Send, Ban, MessageSquare, ThumbsUp, ThumbsDown } from 'lucide-react';
+import type { InvoiceData } from '@/lib/invoice';
+import {
+  getDaysOverdue,
+  getEffectiveStatus,
+  getManualTransitions,
+  getPreviousContacts,
+  getStatusTimeline,
+  STATUS_BADGE_CLASSES,
+  STATUS_LABELS,
+  type ManualStatus
+} from '@/lib/status';
+
+interface InvoiceStatusPanelProps {
+  invoice: InvoiceData;
+  today: string;
+  isBusy: boolean;
+  onTransition: (to: ManualStatus) => void;
+  onRecordContact: (note: string) => void;
+}
+
+const ACTIONS: Record<ManualStatus, { label: string; icon: React.ElementType }> = {
+  sent: { label: 'Mark as Sent', icon: Send },
+  accepted: { label: 'Mark Accepted', icon: ThumbsUp },
+  declined: { label: 'Mark Declined', icon: ThumbsDown },
+  void: { label: 'Void', icon: Ban }
+};
+
+const InvoiceStatusPanel: React.FC<InvoiceStatusPanelProps> = ({ invoice, today, isBusy, onTransition, onRecordContact }) => {
+  const [contactNote, setContactNote] = useState('');
+  const status = getEffectiveStatus(invoice, today);
+  const daysOverdue = getDaysOverdue(invoice, today);
+  const timeline = getStatusTimeline(invoice, today);
+  const canContact = invoice.status === 'sent' || invoice.status === 'partially-paid';
+
+  const recordContact = () => {
+    onRecordContact(contactNote.trim() || 'Payment reminder');
+    setContactNote('');
+  };
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Label>Status</Label>
+          <Badge className={STATUS_BADGE_CLASSES[status]} variant="outline">{STATUS_LABELS[status]}</Badge>
+          {daysOverdue > 0 && <span className="text-sm text-red-600">{daysOverdue} days overdue</span>}
+          <span className="text-sm text-gray-600">· {getPreviousContacts(invoice)} contacts</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {getManualTransitions(invoice).map((to) => {
+            const { label, icon: Icon } = ACTIONS[to];
+            return (
+              <Button
+                key={to}
+                size="sm"
+                variant={to === 'void' || to === 'declined' ? 'outline' : 'default'}
+                disabled={isBusy}
+                onClick={() => onTransition(to)}
+                className="flex items-center gap-2"
+              >
+                <Icon className="h-4 w-4" />
+                {label}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
+      {canContact && (
+        <div className="flex gap-2">
+          <Input
+            value={contactNote}
+            placeholder="Reminder note (optional)"
+            onChange={(e) => setContactNote(e.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={recordContact} className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            Record Reminder
+          </Button>
+        </div>
+      )}
+
+      {timeline.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+          {timeline.map((entry, index) => (
+            <span key={index}>
+              {STATUS_LABELS[entry.status]}: {entry.at.length > 10 ? new Date(entry.at).toLocaleString() : entry.at}
+            </span>
+          ))}
+          {invoice.contacts.map((contact, index) => (
+            <span key={`contact-${index}`}>
+              Reminder: {new Date(contact.at).toLocaleString()} ({contact.note})
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceStatusPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { ChevronDown, ChevronRight, GripVertical, Plus, Trash2 } from 'lucide-react';
+import type { ItemSection } from '@/lib/sections';
+
+interface ItemSectionHeaderProps {
+  section: ItemSection;
+  subtotal: string;
+  itemCount: number;
+  collapsed: boolean;
+  onChange: (changes: Partial<ItemSection>) => void;
+  onToggleCollapsed: () => void;
+  onAddItem: () => void;
+  onRemove: () => void;
+  onDragStart: (event: React.DragEvent) => void;
+  onDragOver: (event: React.DragEvent) => void;
+  onDrop: (event: React.DragEvent) => void;
+}
+
+// The header row of a section in the items grid. The grip drags the whole section; items
+// dropped on the header move to the top of the section.
+const ItemSectionHeader: React.FC<ItemSectionHeaderProps> = ({
+  section,
+  subtotal,
+  itemCount,
+  collapsed,
+  onChange,
+  onToggleCollapsed,
+  onAddItem,
+  onRemove,
+  onDragStart,
+  onDragOver,
+  onDrop
+}) => (
+  <div
+    data-drag-row
+    className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 border rounded-lg"
+    onDragOver={onDragOver}
+    onDrop={onDrop}
+  >
+    <span draggable onDragStart={onDragStart} className="cursor-grab text-gray-400" title="Drag to reorder">
+      <GripVertical className="h-4 w-4" />
+    </span>
+    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onToggleCollapsed}>
+      {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+    </Button>
+    <Input
+      value={section.title}
+      placeholder="Section title"
+      onChange={(e) => onChange({ title: e.target.value })}
+      className="h-8 flex-1 min-w-[10rem] font-semibold"
+    />
+    {collapsed && <span className="text-xs text-gray-600">{itemCount} {itemCount === 1 ? 'item' : 'items'}</span>}
+    <div className="flex items-center gap-2">
+      <Switch
+        id={`section-subtotal-${section.id}`}
+        checked={section.showSubtotal}
+        onCheckedChange={(checked) => onChange({ showSubtotal: checked })}
+      />
+      <label htmlFor={`section-subtotal-${section.id}`} className="text-xs text-gray-600">Subtotal</label>
+    </div>
+    <span className="text-sm font-medium w-24 text-right">{subtotal}</span>
+    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onAddItem} title="Add item to section">
+      <Plus className="h-4 w-4" />
+    </Button>
+    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onRemove} title="Remove section, keep its items">
+      <Trash2 className="h-4 w-4" />
+    </Button>
+  </div>
+);
+
+export default ItemSectionHeader;
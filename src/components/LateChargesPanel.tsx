@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FilePlus, Plus, Timer } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import { isSameClient, type InvoiceData } from '@/lib/invoice';
+import { listInvoices, type SavedInvoice } from '@/lib/invoice-store';
+import { calculateLateCharge, type LateCharge, type LateFeePolicy } from '@/lib/late-fees';
+
+interface LateChargesPanelProps {
+  invoice: InvoiceData;
+  invoiceId: string | null;
+  policy: LateFeePolicy;
+  today: string;
+  refreshKey: number;
+  onBillAsInvoice: (charge: LateCharge) => void;
+  onAddLine: (overdue: SavedInvoice, charge: LateCharge) => void;
+}
+
+// On an overdue invoice: its accrued charges, billable as a new invoice. On a draft invoice:
+// the client's other overdue invoices, whose charges can be added as lines.
+const LateChargesPanel: React.FC<LateChargesPanelProps> = ({
+  invoice,
+  invoiceId,
+  policy,
+  today,
+  refreshKey,
+  onBillAsInvoice,
+  onAddLine
+}) => {
+  const [asOf, setAsOf] = useState(today);
+  const [overdueInvoices, setOverdueInvoices] = useState<SavedInvoice[]>([]);
+  const isDraftInvoice = invoice.documentType === 'invoice' && invoice.status === 'draft';
+  const { clientInfo, currency } = invoice;
+
+  useEffect(() => {
+    if (!policy.enabled || !isDraftInvoice) {
+      setOverdueInvoices([]);
+      return;
+    }
+    listInvoices()
+      .then(invoices => setOverdueInvoices(invoices.filter(saved =>
+        saved.id !== invoiceId && saved.currency === currency && isSameClient(saved.clientInfo, clientInfo))))
+      .catch(() => setOverdueInvoices([]));
+  }, [policy.enabled, isDraftInvoice, invoiceId, currency, clientInfo, refreshKey]);
+
+  if (!policy.enabled) return null;
+
+  const ownCharge = calculateLateCharge(invoice, policy, asOf);
+  const clientCharges = overdueInvoices
+    .map(overdue => ({ overdue, charge: calculateLateCharge(overdue, policy, asOf) }))
+    .filter((entry): entry is { overdue: SavedInvoice; charge: LateCharge } => !!entry.charge && entry.charge.charge > 0);
+
+  if (!ownCharge && clientCharges.length === 0) return null;
+
+  return (
+    <div className="p-4 border border-red-200 bg-red-50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-2 text-red-800">
+          <Timer className="h-4 w-4" />
+          Late Charges
+        </Label>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="late-charges-as-of" className="text-sm">As of</Label>
+          <Input
+            id="late-charges-as-of"
+            type="date"
+            max={today}
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value && e.target.value < today ? e.target.value : today)}
+            className="h-8 w-40 bg-white"
+          />
+        </div>
+      </div>
+
+      {ownCharge && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span>
+            {ownCharge.daysLate} days late on {formatMoney(ownCharge.principal, currency)}:
+            accrued <strong>{formatMoney(ownCharge.accrued, currency)}</strong>
+            {ownCharge.billed > 0 && <>, of which {formatMoney(ownCharge.billed, currency)} already billed</>}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={ownCharge.charge <= 0}
+            onClick={() => onBillAsInvoice(ownCharge)}
+            className="flex items-center gap-2"
+          >
+            <FilePlus className="h-4 w-4" />
+            Bill {formatMoney(ownCharge.charge, currency)} as New Invoice
+          </Button>
+        </div>
+      )}
+
+      {clientCharges.map(({ overdue, charge }) => (
+        <div key={overdue.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span>
+            {overdue.invoiceNumber}: {charge.daysLate} days late, <strong>{formatMoney(charge.charge, currency)}</strong> unbilled
+          </span>
+          <Button size="sm" variant="outline" onClick={() => onAddLine(overdue, charge)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add as Line
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LateChargesPanel;
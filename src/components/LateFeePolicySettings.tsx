@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Percent, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_LATE_FEE_POLICY, LATE_FEE_METHODS, type LateFeeMethod, type LateFeePolicy } from '@/lib/late-fees';
+import { getSetting, saveSetting } from '@/lib/settings';
+
+interface LateFeePolicySettingsProps {
+  onSaved: (policy: LateFeePolicy) => void;
+}
+
+const LateFeePolicySettings: React.FC<LateFeePolicySettingsProps> = ({ onSaved }) => {
+  const [policy, setPolicy] = useState<LateFeePolicy>(DEFAULT_LATE_FEE_POLICY);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getSetting('lateFeePolicy', DEFAULT_LATE_FEE_POLICY).then(setPolicy).catch(() => undefined);
+  }, []);
+
+  const updatePolicy = (changes: Partial<LateFeePolicy>) => {
+    setPolicy(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    if (policy.maxAnnualRate !== null && policy.method !== 'flat' && policy.annualRate > policy.maxAnnualRate) {
+      toast({
+        title: "Rate Above Legal Maximum",
+        description: `Interest will be charged at ${policy.maxAnnualRate}%, the legal maximum you entered.`
+      });
+    }
+    onSaved(await saveSetting('lateFeePolicy', policy));
+    toast({
+      title: "Late Fee Policy Saved!",
+      description: policy.enabled ? "Overdue invoices now show their accrued charges." : "Late fees are turned off."
+    });
+  };
+
+  const isInterest = policy.method !== 'flat';
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Late Fees
+            </CardTitle>
+            <CardDescription>
+              Charges on overdue invoices. Interest accrues on the unpaid balance from the due date.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={handleSave} className="flex items-center gap-2">
+            <Save className="h-4 w-4" />
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="late-fees-enabled"
+            checked={policy.enabled}
+            onCheckedChange={(checked) => updatePolicy({ enabled: checked })}
+          />
+          <Label htmlFor="late-fees-enabled">Charge late fees</Label>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="late-fee-method">Method</Label>
+            <Select value={policy.method} onValueChange={(value: LateFeeMethod) => updatePolicy({ method: value })}>
+              <SelectTrigger id="late-fee-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LATE_FEE_METHODS.map((method) => (
+                  <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isInterest ? (
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-rate">Annual Rate (%)</Label>
+              <Input
+                id="late-fee-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={policy.annualRate}
+                onChange={(e) => updatePolicy({ annualRate: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-flat">Fee</Label>
+              <Input
+                id="late-fee-flat"
+                type="number"
+                min="0"
+                step="0.01"
+                value={policy.flatFee}
+                onChange={(e) => updatePolicy({ flatFee: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="late-fee-grace">Grace Period (days)</Label>
+            <Input
+              id="late-fee-grace"
+              type="number"
+              min="0"
+              value={policy.graceDays}
+              onChange={(e) => updatePolicy({ graceDays: Math.max(parseInt(e.target.value) || 0, 0) })}
+            />
+          </div>
+          {isInterest && (
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-max">Legal Maximum (% p.a.)</Label>
+              <Input
+                id="late-fee-max"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No limit"
+                value={policy.maxAnnualRate ?? ''}
+                onChange={(e) => updatePolicy({
+                  maxAnnualRate: e.target.value === '' ? null : Math.max(parseFloat(e.target.value) || 0, 0)
+                })}
+              />
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LateFeePolicySettings;
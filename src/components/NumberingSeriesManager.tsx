@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Hash, Plus, Save, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { createId, todayISO } from '@/lib/invoice';
+import { listInvoices } from '@/lib/invoice-store';
+import {
+  auditNumbers,
+  findIssuedConflict,
+  getCounterKey,
+  getCounterPrefixes,
+  previewNextNumber,
+  type NumberContext,
+  type NumberingAudit,
+  type NumberingSeries
+} from '@/lib/numbering';
+import { listIssuedNumbers, listSeries, saveSeries } from '@/lib/numbering-store';
+
+// The year and client prefix whose counter a series' "Next Sequence" shows and sets
+interface CounterChoice {
+  year: string;
+  clientPrefix: string;
+}
+
+const NumberingSeriesManager: React.FC = () => {
+  const [seriesList, setSeriesList] = useState<NumberingSeries[]>([]);
+  const [audit, setAudit] = useState<NumberingAudit | null>(null);
+  // Next sequences entered by hand, per series and counter key, until the series is saved
+  const [nextSequences, setNextSequences] = useState<Record<string, Record<string, number>>>({});
+  const [counterChoices, setCounterChoices] = useState<Record<string, CounterChoice>>({});
+  const { toast } = useToast();
+
+  const loadSeries = useCallback(async () => {
+    setSeriesList(await listSeries());
+  }, []);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const updateSeries = (id: string, changes: Partial<NumberingSeries>) => {
+    setSeriesList(prev => prev.map(series => series.id === id ? { ...series, ...changes } : series));
+  };
+
+  const addSeries = () => {
+    setSeriesList(prev => [...prev, {
+      id: createId(),
+      name: 'New Series',
+      pattern: '{YYYY}-{SEQ:5}',
+      resetYearly: true,
+      counters: {}
+    }]);
+  };
+
+  const getChoice = (series: NumberingSeries): CounterChoice =>
+    counterChoices[series.id] ?? { year: todayISO().slice(0, 4), clientPrefix: getCounterPrefixes(series)[0] ?? '' };
+
+  const chooseCounter = (series: NumberingSeries, changes: Partial<CounterChoice>) => {
+    setCounterChoices(prev => ({ ...prev, [series.id]: { ...getChoice(series), ...changes } }));
+  };
+
+  // Today's month and day in the chosen year, for patterns that show them
+  const getContext = (series: NumberingSeries): NumberContext => {
+    const { year, clientPrefix } = getChoice(series);
+    return { date: `${year}${todayISO().slice(4)}`, clientPrefix: clientPrefix.toUpperCase() };
+  };
+
+  const isPerClient = (series: NumberingSeries) => series.pattern.includes('{CLIENT}');
+
+  const handleSave = async (series: NumberingSeries) => {
+    if (!series.pattern.includes('{SEQ')) {
+      toast({
+        title: "Invalid Pattern",
+        description: "The pattern must contain a {SEQ} token, e.g. {YYYY}-{SEQ:5}.",
+        variant: "destructive"
+      });
+      return;
+    }
+    // A sequence restarting each year would otherwise repeat last year's numbers
+    if (series.resetYearly && !/\{YY(YY)?\}/.test(series.pattern)) {
+      toast({
+        title: "Invalid Pattern",
+        description: "A series that resets every year needs a {YYYY} or {YY} token, e.g. {YYYY}-{SEQ:5}.",
+        variant: "destructive"
+      });
+      return;
+    }
+    const context = getContext(series);
+    if (series.resetYearly && !/^\d{4}$/.test(getChoice(series).year)) {
+      toast({
+        title: "Invalid Year",
+        description: "Enter the four-digit year whose counter you want to check.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (isPerClient(series) && !context.clientPrefix) {
+      toast({
+        title: "Client Prefix Required",
+        description: "This series numbers each client separately. Enter the client prefix whose counter you want to check.",
+        variant: "destructive"
+      });
+      return;
+    }
+    try {
+      const issued = await listIssuedNumbers();
+      const conflict = findIssuedConflict(series, (series.counters[getCounterKey(series, context)] || 0) + 1, context, issued) ||
+        Object.entries(nextSequences[series.id] || {}).map(([counterKey, next]) => issued.find(entry =>
+          !entry.imported && entry.seriesId === series.id && entry.counterKey === counterKey && entry.sequence >= next)).find(Boolean);
+      if (conflict) {
+        toast({
+          title: "Number Already Issued",
+          description: `${conflict.id} has already been issued. Set the next sequence above ${conflict.sequence || 'it'} so numbers are not repeated.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      const saved = await saveSeries(series, nextSequences[series.id] || {});
+      setSeriesList(prev => prev.map(existing => existing.id === saved.id ? saved : existing));
+      setNextSequences(({ [series.id]: _saved, ...rest }) => rest);
+      toast({
+        title: "Series Saved!",
+        description: `Next number: ${previewNextNumber(saved, context)}`
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Series",
+        description: error instanceof Error ? error.message : "The series could not be saved in this browser.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const setNextSequence = (series: NumberingSeries, next: number) => {
+    const counterKey = getCounterKey(series, getContext(series));
+    updateSeries(series.id, { counters: { ...series.counters, [counterKey]: Math.max(next - 1, 0) } });
+    setNextSequences(prev => ({ ...prev, [series.id]: { ...prev[series.id], [counterKey]: next } }));
+  };
+
+  const runAudit = async () => {
+    const [issued, invoices, stored] = await Promise.all([listIssuedNumbers(), listInvoices(), listSeries()]);
+    setAudit(auditNumbers(issued, invoices, stored));
+  };
+
+  const seriesName = (id: string) => seriesList.find(series => series.id === id)?.name || id;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Hash className="h-5 w-5" />
+              Invoice Numbering
+            </CardTitle>
+            <CardDescription>
+              Numbers are reserved from a series when an invoice is finalized. Tokens: {'{YYYY} {YY} {MM} {DD} {SEQ:n} {CLIENT}'}
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={addSeries} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Series
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {seriesList.map((series) => (
+          <div key={series.id} className="p-4 border rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={series.name}
+                  onChange={(e) => updateSeries(series.id, { name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Pattern</Label>
+                <Input
+                  value={series.pattern}
+                  onChange={(e) => updateSeries(series.id, { pattern: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Next Sequence</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={(series.counters[getCounterKey(series, getContext(series))] || 0) + 1}
+                  disabled={isPerClient(series) && !getChoice(series).clientPrefix}
+                  onChange={(e) => setNextSequence(series, parseInt(e.target.value) || 1)}
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label>Reset Every Year</Label>
+                <Switch
+                  checked={series.resetYearly}
+                  onCheckedChange={(checked) => updateSeries(series.id, { resetYearly: checked })}
+                />
+              </div>
+            </div>
+            {(series.resetYearly || isPerClient(series)) && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {series.resetYearly && (
+                  <div className="space-y-2">
+                    <Label>Counter Year</Label>
+                    <Input
+                      type="number"
+                      value={getChoice(series).year}
+                      onChange={(e) => chooseCounter(series, { year: e.target.value.slice(0, 4) })}
+                    />
+                  </div>
+                )}
+                {isPerClient(series) && (
+                  <div className="space-y-2">
+                    <Label>Counter Client Prefix</Label>
+                    <Input
+                      list={`prefixes-${series.id}`}
+                      placeholder="e.g. ACM"
+                      value={getChoice(series).clientPrefix}
+                      onChange={(e) => chooseCounter(series, { clientPrefix: e.target.value })}
+                    />
+                    <datalist id={`prefixes-${series.id}`}>
+                      {getCounterPrefixes(series).map(prefix => <option key={prefix} value={prefix} />)}
+                    </datalist>
+                  </div>
+                )}
+                {isPerClient(series) && (
+                  <p className="md:col-span-2 flex items-center gap-2 text-sm text-amber-700">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    Each client has its own counter. Next Sequence only changes the counter of the prefix entered here.
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">
+                Next number: <strong>{previewNextNumber(series, getContext(series))}</strong>
+              </span>
+              <Button size="sm" variant="outline" onClick={() => handleSave(series)} className="flex items-center gap-2">
+                <Save className="h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-3">
+          <Button variant="outline" onClick={runAudit} className="w-full flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4" />
+            Audit Issued Numbers
+          </Button>
+
+          {audit && audit.gaps.length === 0 && audit.duplicates.length === 0 && audit.orphaned.length === 0 && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-sm font-medium text-green-800">No gaps or duplicates found.</p>
+            </div>
+          )}
+
+          {audit && (audit.gaps.length > 0 || audit.duplicates.length > 0 || audit.orphaned.length > 0) && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2 text-sm">
+              {audit.gaps.map((gap) => (
+                <p key={`${gap.seriesId}-${gap.counterKey}`} className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  {seriesName(gap.seriesId)} ({gap.counterKey}): missing sequence {gap.missing.join(', ')}
+                </p>
+              ))}
+              {audit.duplicates.map((duplicate) => (
+                <p key={duplicate.number} className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  {duplicate.number} is used by {duplicate.invoiceIds.length} invoices
+                </p>
+              ))}
+              {audit.orphaned.map((entry) => (
+                <p key={entry.id} className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  {entry.id} was issued but its invoice no longer exists
+                  <Badge variant="outline">{new Date(entry.issuedAt).toLocaleDateString()}</Badge>
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NumberingSeriesManager;
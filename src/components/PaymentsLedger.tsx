@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import { formatMoney, getCurrencyDigits } from '@/lib/currency';
+import { createId, todayISO, type InvoiceData } from '@/lib/invoice';
+import { canRecordPayments, getPaymentSummary, PAYMENT_METHODS, type Payment, type PaymentMethod } from '@/lib/payments';
+
+interface PaymentsLedgerProps {
+  invoice: InvoiceData;
+  onChange: (payments: Payment[]) => void;
+}
+
+const getUnavailableReason = (invoice: InvoiceData) => {
+  if (invoice.documentType === 'credit-note') {
+    return `Issuing this credit note reduces the balance of invoice ${invoice.reference?.number}.`;
+  }
+  if (invoice.documentType === 'quote') {
+    return 'Quotes do not take payments. Convert the quote to an invoice to bill it.';
+  }
+  return invoice.status === 'void'
+    ? 'Void invoices do not take payments.'
+    : 'Mark the invoice as sent to record payments against it.';
+};
+
+const PaymentsLedger: React.FC<PaymentsLedgerProps> = ({ invoice, onChange }) => {
+  const [date, setDate] = useState(todayISO());
+  const [method, setMethod] = useState<PaymentMethod>('bank-transfer');
+  const [reference, setReference] = useState('');
+  const [amount, setAmount] = useState('');
+  const { currency, payments } = invoice;
+  const summary = getPaymentSummary(invoice);
+  const methodLabel = (value: PaymentMethod) => PAYMENT_METHODS.find(option => option.value === value)?.label || value;
+
+  const addPayment = (signedAmount: number) => {
+    onChange([...payments, { id: createId(), date, method, reference: reference.trim(), amount: signedAmount }]);
+    setReference('');
+    setAmount('');
+  };
+
+  const value = parseFloat(amount);
+  const isValid = Number.isFinite(value) && value > 0;
+
+  if (!canRecordPayments(invoice)) {
+    return (
+      <div className="space-y-2">
+        <Label className="text-lg font-semibold">Payments</Label>
+        <p className="text-sm text-gray-600">
+          {getUnavailableReason(invoice)}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-lg font-semibold flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Payments
+        </Label>
+        <div className="text-sm text-gray-600 space-x-3">
+          <span>Paid: <strong>{formatMoney(summary.paid, currency)}</strong></span>
+          <span>Balance due: <strong>{formatMoney(summary.balance, currency)}</strong></span>
+        </div>
+      </div>
+
+      {summary.overpaid > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          The client has overpaid by {formatMoney(summary.overpaid, currency)}. Record a refund, or keep it as credit
+          toward a future invoice.
+        </div>
+      )}
+
+      {payments.length > 0 && (
+        <div className="space-y-2">
+          {payments.map((payment) => (
+            <div key={payment.id} className="grid grid-cols-12 gap-2 items-center text-sm">
+              <span className="col-span-3">{payment.date}</span>
+              <span className="col-span-3">{payment.amount < 0 ? 'Refund' : methodLabel(payment.method)}</span>
+              <span className="col-span-3 truncate text-gray-600">{payment.reference}</span>
+              <span className="col-span-2 text-right font-medium">{formatMoney(payment.amount, currency)}</span>
+              <div className="col-span-1">
+                <Button size="sm" variant="ghost" onClick={() => onChange(payments.filter(current => current.id !== payment.id))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-12 gap-2 items-end">
+        <div className="col-span-3">
+          <Label className="text-sm">Date</Label>
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div className="col-span-3">
+          <Label className="text-sm">Method</Label>
+          <Select value={method} onValueChange={(value: PaymentMethod) => setMethod(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_METHODS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-3">
+          <Label className="text-sm">Reference</Label>
+          <Input value={reference} placeholder="Transaction ID" onChange={(e) => setReference(e.target.value)} />
+        </div>
+        <div className="col-span-3">
+          <Label className="text-sm">Amount</Label>
+          <Input
+            type="number"
+            min="0"
+            step={Math.pow(10, -getCurrencyDigits(currency))}
+            value={amount}
+            placeholder={summary.balance.toString()}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex gap-2 justify-end">
+        {summary.overpaid > 0 && (
+          <Button size="sm" variant="outline" onClick={() => addPayment(-(isValid ? value : summary.overpaid))}>
+            Record Refund
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={() => addPayment(isValid ? value : summary.balance)}
+          disabled={!isValid && summary.balance <= 0}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Record Payment
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentsLedger;
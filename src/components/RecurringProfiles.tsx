@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat, Plus, Save, Trash2, Play, FileText, FolderOpen, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import { getCronError } from '@/lib/cron';
+import { todayISO, type InvoiceData } from '@/lib/invoice';
+import type { SavedInvoice } from '@/lib/invoice-store';
+import { calculateTotals } from '@/lib/pricing';
+import {
+  createProfile,
+  FREQUENCIES,
+  getScheduleError,
+  PERIOD_PLACEHOLDERS,
+  rescheduleProfile,
+  toTemplate,
+  type RecurrenceFrequency,
+  type RecurringProfile
+} from '@/lib/recurring';
+import { deleteProfile, generateDueDrafts, listProfiles, saveProfile } from '@/lib/recurring-store';
+
+interface RecurringProfilesProps {
+  currentInvoice: InvoiceData;
+  onOpen: (invoice: SavedInvoice) => void;
+  onGenerated: () => void;
+}
+
+const RecurringProfiles: React.FC<RecurringProfilesProps> = ({ currentInvoice, onOpen, onGenerated }) => {
+  const [profiles, setProfiles] = useState<RecurringProfile[]>([]);
+  const [generated, setGenerated] = useState<SavedInvoice[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { toast } = useToast();
+
+  const loadProfiles = useCallback(async () => {
+    setProfiles(await listProfiles());
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const updateProfile = (id: string, changes: Partial<RecurringProfile>) => {
+    setProfiles(prev => prev.map(profile => profile.id === id ? { ...profile, ...changes } : profile));
+  };
+
+  const addProfile = () => {
+    setProfiles(prev => [...prev, createProfile(currentInvoice, todayISO())]);
+  };
+
+  const handleSave = async (profile: RecurringProfile) => {
+    const scheduleError = getScheduleError(profile);
+    if (scheduleError) {
+      toast({ title: "Invalid Schedule", description: scheduleError, variant: "destructive" });
+      return;
+    }
+    if (profile.endDate && profile.endDate < profile.startDate) {
+      toast({ title: "Invalid Schedule", description: "The end date is before the start date.", variant: "destructive" });
+      return;
+    }
+    const rescheduled = { ...rescheduleProfile(profile), error: undefined };
+    await saveProfile(rescheduled);
+    updateProfile(profile.id, rescheduled);
+    toast({
+      title: "Schedule Saved!",
+      description: `Next draft on ${rescheduled.nextRunDate}.`
+    });
+  };
+
+  const handleDelete = async (profile: RecurringProfile) => {
+    await deleteProfile(profile.id);
+    setProfiles(prev => prev.filter(current => current.id !== profile.id));
+    toast({
+      title: "Schedule Deleted",
+      description: `${profile.name} will no longer generate drafts. Existing drafts are kept.`
+    });
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const { drafts, failed } = await generateDueDrafts();
+      setGenerated(drafts);
+      await loadProfiles();
+      onGenerated();
+      if (failed.length > 0) {
+        toast({
+          title: "Some Schedules Failed",
+          description: `${failed.map(profile => profile.name).join(', ')} could not generate drafts. Fix the schedule and save it.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      toast({
+        title: drafts.length > 0 ? "Drafts Created!" : "Nothing Due",
+        description: drafts.length > 0
+          ? `${drafts.length} recurring draft${drafts.length === 1 ? ' is' : 's are'} ready for review.`
+          : "No recurring invoices are due today."
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const templateSummary = (template: InvoiceData) =>
+    `${template.clientInfo.name || 'No client'} · ${formatMoney(calculateTotals(template).total, template.currency)}`;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Recurring Invoices
+            </CardTitle>
+            <CardDescription>
+              Each run creates a draft from the template for review; its number continues the template's series when
+              finalized. Descriptions and notes may use {PERIOD_PLACEHOLDERS.join(' ')}.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleGenerate} disabled={isGenerating} className="flex items-center gap-2">
+              <Play className="h-4 w-4" />
+              Generate Due Drafts
+            </Button>
+            <Button size="sm" onClick={addProfile} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              From Current Invoice
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {profiles.length === 0 && (
+          <p className="text-sm text-gray-600 text-center py-6">
+            No recurring schedules yet. Set up an invoice in the editor, then create a schedule from it.
+          </p>
+        )}
+
+        {profiles.map((profile) => {
+          const cronError = profile.frequency === 'custom' ? getCronError(profile.cron) : null;
+          return (
+            <div key={profile.id} className="p-4 border rounded-lg space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label>Name</Label>
+                  <Input
+                    value={profile.name}
+                    onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Frequency</Label>
+                  <Select
+                    value={profile.frequency}
+                    onValueChange={(value: RecurrenceFrequency) => updateProfile(profile.id, { frequency: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FREQUENCIES.map((frequency) => (
+                        <SelectItem key={frequency.value} value={frequency.value}>{frequency.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Start Date</Label>
+                  <Input
+                    type="date"
+                    value={profile.startDate}
+                    onChange={(e) => updateProfile(profile.id, { startDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>End Date</Label>
+                  <Input
+                    type="date"
+                    value={profile.endDate || ''}
+                    onChange={(e) => updateProfile(profile.id, { endDate: e.target.value || undefined })}
+                  />
+                </div>
+              </div>
+
+              {profile.frequency === 'custom' && (
+                <div className="space-y-2">
+                  <Label>Cron Expression</Label>
+                  <Input
+                    value={profile.cron}
+                    placeholder="0 9 1 * *"
+                    onChange={(e) => updateProfile(profile.id, { cron: e.target.value })}
+                  />
+                  {cronError && <p className="text-sm text-red-600">{cronError}</p>}
+                </div>
+              )}
+
+              {profile.error && (
+                <p className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertTriangle className="h-4 w-4" />
+                  Drafts could not be generated: {profile.error}
+                </p>
+              )}
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                  <Badge variant="outline">{templateSummary(profile.template)}</Badge>
+                  <span>Next draft: <strong>{profile.nextRunDate}</strong></span>
+                  {profile.lastRunDate && <span>· Last: {profile.lastRunDate}</span>}
+                  <span>· {profile.runCount} run{profile.runCount === 1 ? '' : 's'}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm">Active</Label>
+                  <Switch
+                    checked={profile.active}
+                    onCheckedChange={(checked) => updateProfile(profile.id, { active: checked })}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateProfile(profile.id, { template: toTemplate(currentInvoice) })}
+                    className="flex items-center gap-2"
+                  >
+                    <FileText className="h-4 w-4" />
+                    Use Current Invoice
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleSave(profile)} className="flex items-center gap-2">
+                    <Save className="h-4 w-4" />
+                    Save
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(profile)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {generated.length > 0 && (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+            <p className="text-sm font-medium text-blue-800">Drafts ready for review</p>
+            {generated.map((draft) => (
+              <div key={draft.id} className="flex items-center justify-between text-sm">
+                <span>{draft.clientInfo.name || 'No client'} · {draft.invoiceDate}</span>
+                <Button size="sm" variant="outline" onClick={() => onOpen(draft)} className="flex items-center gap-2">
+                  <FolderOpen className="h-4 w-4" />
+                  Open
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecurringProfiles;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { createId, type InvoiceData } from '@/lib/invoice';
+import { saveSetting } from '@/lib/settings';
+import type { TaxRate } from '@/lib/tax';
+
+type TaxSettings = Pick<InvoiceData, 'taxRates' | 'taxIds' | 'taxInclusive'>;
+
+interface TaxRatesEditorProps extends TaxSettings {
+  onChange: (changes: Partial<TaxSettings>) => void;
+}
+
+const TaxRatesEditor: React.FC<TaxRatesEditorProps> = ({ taxRates, taxIds, taxInclusive, onChange }) => {
+  const { toast } = useToast();
+
+  const addTaxRate = () => {
+    const taxRate: TaxRate = { id: createId(), name: 'New Tax', rate: 0, compound: false };
+    onChange({ taxRates: [...taxRates, taxRate], taxIds: [...taxIds, taxRate.id] });
+  };
+
+  const updateTaxRate = (id: string, changes: Partial<TaxRate>) => {
+    onChange({ taxRates: taxRates.map(taxRate => taxRate.id === id ? { ...taxRate, ...changes } : taxRate) });
+  };
+
+  const removeTaxRate = (id: string) => {
+    onChange({
+      taxRates: taxRates.filter(taxRate => taxRate.id !== id),
+      taxIds: taxIds.filter(taxId => taxId !== id)
+    });
+  };
+
+  const toggleInvoiceTax = (id: string, applied: boolean) => {
+    onChange({ taxIds: applied ? [...taxIds, id] : taxIds.filter(taxId => taxId !== id) });
+  };
+
+  const saveAsDefault = async () => {
+    await saveSetting('taxRates', taxRates);
+    toast({
+      title: "Default Taxes Saved!",
+      description: "New invoices will start with these tax rates."
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-lg font-semibold">Taxes</Label>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={saveAsDefault} className="flex items-center gap-2">
+            <Save className="h-4 w-4" />
+            Save as Default
+          </Button>
+          <Button size="sm" onClick={addTaxRate} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Tax
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {taxRates.map((taxRate) => (
+          <div key={taxRate.id} className="grid grid-cols-12 gap-2 items-end">
+            <div className="col-span-5">
+              <Label className="text-sm">Name</Label>
+              <Input
+                value={taxRate.name}
+                onChange={(e) => updateTaxRate(taxRate.id, { name: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2">
+              <Label className="text-sm">Rate (%)</Label>
+              <Input
+                type="number"
+                step="0.001"
+                value={taxRate.rate}
+                onChange={(e) => updateTaxRate(taxRate.id, { rate: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="col-span-2 flex flex-col gap-2 pb-2">
+              <Label className="text-sm">Compound</Label>
+              <Switch
+                checked={taxRate.compound}
+                onCheckedChange={(checked) => updateTaxRate(taxRate.id, { compound: checked })}
+              />
+            </div>
+            <div className="col-span-2 flex flex-col gap-2 pb-2">
+              <Label className="text-sm">All Lines</Label>
+              <Switch
+                checked={taxIds.includes(taxRate.id)}
+                onCheckedChange={(checked) => toggleInvoiceTax(taxRate.id, checked)}
+              />
+            </div>
+            <div className="col-span-1">
+              <Button size="sm" variant="ghost" onClick={() => removeTaxRate(taxRate.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="tax-inclusive"
+          checked={taxInclusive}
+          onCheckedChange={(checked) => onChange({ taxInclusive: checked })}
+        />
+        <Label htmlFor="tax-inclusive">Rates include tax</Label>
+      </div>
+    </div>
+  );
+};
+
+export default TaxRatesEditor;
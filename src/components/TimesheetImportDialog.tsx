@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Clock } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import type { InvoiceData } from '@/lib/invoice';
+import {
+  groupTimesheet,
+  parseTimesheet,
+  TIMESHEET_GROUPINGS,
+  type ParsedTimesheet,
+  type TimesheetGrouping,
+  type TimesheetLine
+} from '@/lib/timesheet';
+import { listBilledTimeEntries } from '@/lib/timesheet-store';
+import { formatQuantity } from '@/lib/units';
+
+interface TimesheetImportDialogProps {
+  invoice: InvoiceData;
+  disabled?: boolean;
+  onImport: (lines: TimesheetLine[]) => void;
+}
+
+const TimesheetImportDialog: React.FC<TimesheetImportDialogProps> = ({ invoice, disabled, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [timesheet, setTimesheet] = useState<ParsedTimesheet | null>(null);
+  const [billedKeys, setBilledKeys] = useState<string[]>([]);
+  const [grouping, setGrouping] = useState<TimesheetGrouping>('task');
+  const [defaultRate, setDefaultRate] = useState(0);
+  const [includeBilled, setIncludeBilled] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) return;
+    setTimesheet(null);
+    setIncludeBilled(false);
+    listBilledTimeEntries()
+      .then(billed => setBilledKeys(billed.map(entry => entry.id)))
+      .catch(() => setBilledKeys([]));
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setTimesheet(parseTimesheet(await file.text(), invoice.clientInfo.locale));
+  };
+
+  const entries = timesheet?.entries ?? [];
+  const isBilled = (key: string) => billedKeys.includes(key);
+  const billable = entries.filter(entry => includeBilled || !isBilled(entry.key));
+  const billedCount = entries.length - entries.filter(entry => !isBilled(entry.key)).length;
+  const lines = groupTimesheet(billable, grouping, defaultRate, invoice);
+  const needsRate = billable.some(entry => entry.rate === null);
+
+  const handleImport = () => {
+    onImport(lines);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled} className="flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          Import Timesheet
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Timesheet</DialogTitle>
+          <DialogDescription>
+            A CSV export with date, project, task, person, hours and rate columns. Entries already billed are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="timesheet-file">CSV File</Label>
+              <Input id="timesheet-file" type="file" accept=".csv,text/csv" onChange={handleFile} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="timesheet-grouping">Group Lines</Label>
+              <Select value={grouping} onValueChange={(value: TimesheetGrouping) => setGrouping(value)}>
+                <SelectTrigger id="timesheet-grouping">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMESHEET_GROUPINGS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="timesheet-rate">Rate When Missing</Label>
+              <Input
+                id="timesheet-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={defaultRate}
+                onChange={(e) => setDefaultRate(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          {timesheet && timesheet.errors.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-1 text-sm">
+              {timesheet.errors.map((error) => (
+                <p key={error.line} className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  Line {error.line}: {error.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {billedCount > 0 && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="timesheet-include-billed"
+                checked={includeBilled}
+                onCheckedChange={(checked) => setIncludeBilled(checked === true)}
+              />
+              <Label htmlFor="timesheet-include-billed" className="font-normal">
+                Include {billedCount} {billedCount === 1 ? 'entry' : 'entries'} already billed
+              </Label>
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <div className="max-h-48 overflow-y-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Person</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.key} className={isBilled(entry.key) && !includeBilled ? 'text-gray-400 line-through' : ''}>
+                      <TableCell>{entry.date}</TableCell>
+                      <TableCell>{entry.project}</TableCell>
+                      <TableCell>{entry.task}</TableCell>
+                      <TableCell>{entry.person}</TableCell>
+                      <TableCell className="text-right">{entry.hours.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {entry.rate === null ? '–' : formatMoney(entry.rate, invoice.currency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {lines.length > 0 && (
+            <div className="space-y-1">
+              <Label>Lines to Add</Label>
+              {lines.map(({ item }) => (
+                <div key={item.id} className="flex justify-between gap-4 text-sm">
+                  <span>{item.description}</span>
+                  <span className="whitespace-nowrap text-gray-600">
+                    {formatQuantity(item.quantity, invoice.quantityPrecision, invoice.clientInfo.locale)} {item.unit} × {formatMoney(item.rate, invoice.currency, invoice.clientInfo.locale)} = {formatMoney(item.amount, invoice.currency, invoice.clientInfo.locale)}
+                  </span>
+                </div>
+              ))}
+              {needsRate && defaultRate === 0 && (
+                <p className="text-xs text-amber-700">Some entries have no rate; set the rate to bill them at.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={lines.length === 0}>
+            Add {lines.length} {lines.length === 1 ? 'Line' : 'Lines'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TimesheetImportDialog;
@@ -0,0 +1,67 @@
+// Who issues the invoices. Most jurisdictions require the seller's legal name, address and
+// tax ID on every invoice; bank details tell the client where to pay.
+export interface BusinessProfile {
+  legalName: string;
+  address: string;
+  countryCode: string; // ISO 3166-1 alpha-2, required on e-invoices
+  email: string;
+  contactName: string;
+  phone: string;
+  endpointId: string; // Peppol participant ID as scheme:identifier, e.g. 0088:7300010000001
+  taxId: string; // VAT or other tax registration number
+  registrationNumber: string; // company register entry
+  fiscalRegime: string; // Italian RegimeFiscale for FatturaPA, e.g. RF01 (ordinary)
+  bankName: string;
+  accountHolder: string;
+  iban: string;
+  bic: string;
+  logo?: string; // PNG or JPEG data URL
+}
+
+export const EMPTY_BUSINESS_PROFILE: BusinessProfile = {
+  legalName: '',
+  address: '',
+  countryCode: '',
+  email: '',
+  contactName: '',
+  phone: '',
+  endpointId: '',
+  taxId: '',
+  registrationNumber: '',
+  fiscalRegime: '',
+  bankName: '',
+  accountHolder: '',
+  iban: '',
+  bic: ''
+};
+
+// Logos are stored inline with the profile, so keep them small
+export const MAX_LOGO_BYTES = 512 * 1024;
+
+export const LOGO_TYPES = ['image/png', 'image/jpeg'];
+
+export const hasBusinessProfile = (profile: BusinessProfile) => profile.legalName.trim() !== '';
+
+// IBANs are printed in groups of four so they can be read back without errors
+export const formatIban = (iban: string) => iban.replace(/\s+/g, '').toUpperCase().replace(/(.{4})(?=.)/g, '$1 ');
+
+export const getSenderLines = (profile: BusinessProfile) => [
+  profile.address,
+  profile.email,
+  profile.taxId && `Tax ID: ${profile.taxId}`,
+  profile.registrationNumber && `Reg. No.: ${profile.registrationNumber}`
+].filter((line): line is string => Boolean(line));
+
+// One line per fact so the footer wraps cleanly in the PDF
+export const getPaymentInstructions = (profile: BusinessProfile, paymentReference?: string) => {
+  if (!profile.iban && !profile.bankName) return [];
+  return [
+    [
+      `Bank transfer to ${profile.accountHolder || profile.legalName}`,
+      profile.bankName,
+      profile.iban && `IBAN ${formatIban(profile.iban)}`,
+      profile.bic && `BIC ${profile.bic.toUpperCase()}`
+    ].filter(Boolean).join(' · '),
+    ...(paymentReference ? [`Please quote ${paymentReference} as the payment reference.`] : [])
+  ];
+};
@@ -0,0 +1,11 @@
+import { getAll, putOne, deleteOne } from '@/lib/db';
+import type { CatalogEntry } from '@/lib/catalog';
+
+export const listCatalog = async (): Promise<CatalogEntry[]> => {
+  const entries = await getAll<CatalogEntry>('catalog');
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCatalogEntry = (entry: CatalogEntry) => putOne<CatalogEntry>('catalog', structuredClone(entry));
+
+export const deleteCatalogEntry = (id: string) => deleteOne('catalog', id);
@@ -0,0 +1,57 @@
+import { createId, type InvoiceData, type InvoiceItem } from '@/lib/invoice';
+
+// Products and services that are billed again and again. Picking one in the items grid
+// fills the line's description, rate, unit and taxes.
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  description: string; // printed on the invoice; the name is used when it is empty
+  rate: number;
+  unit: string;
+  taxIds: string[] | null; // the tax category: which default tax rates apply, or null for the invoice's taxes
+  sku: string;
+}
+
+export const createCatalogEntry = (): CatalogEntry => ({
+  id: createId(),
+  name: '',
+  description: '',
+  rate: 0,
+  unit: '',
+  taxIds: null,
+  sku: ''
+});
+
+const MAX_SUGGESTIONS = 8;
+
+// Entries whose name or SKU starts with the query come before those that merely contain it
+export const searchCatalog = (entries: CatalogEntry[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const rank = (entry: CatalogEntry) => {
+    if (entry.name.toLowerCase().startsWith(needle) || entry.sku.toLowerCase().startsWith(needle)) return 0;
+    const text = `${entry.name} ${entry.description} ${entry.sku}`.toLowerCase();
+    return text.includes(needle) ? 1 : -1;
+  };
+  return entries
+    .map(entry => ({ entry, rank: rank(entry) }))
+    .filter(match => match.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(match => match.entry);
+};
+
+// Taxes the invoice does not have are dropped rather than added behind the user's back
+export const applyCatalogEntry = (
+  item: InvoiceItem,
+  entry: CatalogEntry,
+  invoice: Pick<InvoiceData, 'taxRates'>
+): InvoiceItem => ({
+  ...item,
+  description: entry.description || entry.name,
+  rate: entry.rate,
+  unit: entry.unit || undefined,
+  taxIds: entry.taxIds
+    ? entry.taxIds.filter(taxId => invoice.taxRates.some(taxRate => taxRate.id === taxId))
+    : undefined
+});
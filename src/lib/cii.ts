@@ -0,0 +1,154 @@
+import { formatAmount, formatPercent, formatPrice, type EInvoice, type EInvoiceParty, type EInvoiceVat } from '@/lib/e-invoice';
+import { el, renderXml, required } from '@/lib/xml';
+
+// UN/CEFACT Cross Industry Invoice (D16B) for the EN 16931 model, as embedded in Factur-X and
+// ZUGFeRD PDFs. Profiles carry progressively more of the model: MINIMUM only the parties and
+// totals, BASIC adds the lines, EN 16931 the full core invoice.
+
+export type CiiProfile = 'minimum' | 'basic' | 'en16931';
+
+// The labels double as the Factur-X conformance levels written to the PDF metadata
+export const CII_PROFILES: { value: CiiProfile; label: string; guideline: string }[] = [
+  { value: 'minimum', label: 'MINIMUM', guideline: 'urn:factur-x.eu:1p0:minimum' },
+  { value: 'basic', label: 'BASIC', guideline: 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic' },
+  { value: 'en16931', label: 'EN 16931', guideline: 'urn:cen.eu:en16931:2017' }
+];
+
+export const getCiiProfile = (profile: CiiProfile) =>
+  CII_PROFILES.find(entry => entry.value === profile) ?? CII_PROFILES[CII_PROFILES.length - 1];
+
+const NAMESPACES = {
+  'xmlns:rsm': 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100',
+  'xmlns:ram': 'urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100',
+  'xmlns:qdt': 'urn:un:unece:uncefact:data:standard:QualifiedDataType:100',
+  'xmlns:udt': 'urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100'
+};
+
+// Format 102 is CCYYMMDD
+const dateTime = (name: string, date: string) =>
+  date && el(name, el('udt:DateTimeString', { format: '102' }, date.replace(/-/g, '')));
+
+const indicator = (charge: boolean) => el('ram:ChargeIndicator', el('udt:Indicator', String(charge)));
+
+const tradeTax = (name: string, vat: EInvoiceVat) => el(name,
+  el('ram:TypeCode', 'VAT'),
+  el('ram:CategoryCode', vat.category),
+  el('ram:RateApplicablePercent', formatPercent(vat.rate))
+);
+
+// National profiles such as XRechnung use the EN 16931 content under their own identifier
+export const renderCii = (model: EInvoice, profile: CiiProfile, guideline = getCiiProfile(profile).guideline) => {
+  const isMinimum = profile === 'minimum';
+  const isFull = profile === 'en16931';
+  const { currency, totals } = model;
+  const amount = (name: string, value: number) => el(name, formatAmount(value, currency));
+
+  // MINIMUM identifies the buyer by name and registration only
+  const party = (name: string, value: EInvoiceParty, isBuyer = false) => el(name,
+    el('ram:Name', value.name),
+    el('ram:SpecifiedLegalOrganization', el('ram:ID', value.registrationId)),
+    isFull && (value.contactName || value.phone || value.email) && el('ram:DefinedTradeContact',
+      el('ram:PersonName', value.contactName),
+      el('ram:TelephoneUniversalCommunication', el('ram:CompleteNumber', value.phone)),
+      el('ram:EmailURIUniversalCommunication', el('ram:URIID', value.email))
+    ),
+    !(isMinimum && isBuyer) && el('ram:PostalTradeAddress',
+      !isMinimum && [
+        el('ram:PostcodeCode', value.address.postalCode),
+        el('ram:LineOne', value.address.lines[0]),
+        el('ram:LineTwo', value.address.lines[1]),
+        el('ram:LineThree', value.address.lines[2]),
+        el('ram:CityName', value.address.city)
+      ],
+      el('ram:CountryID', value.address.countryCode)
+    ),
+    !isMinimum && value.endpoint && el('ram:URIUniversalCommunication',
+      el('ram:URIID', { schemeID: value.endpoint.scheme }, value.endpoint.id)
+    ),
+    !(isMinimum && isBuyer) && el('ram:SpecifiedTaxRegistration', el('ram:ID', { schemeID: 'VA' }, value.vatId))
+  );
+
+  const lineItems = isMinimum ? [] : model.lines.map(line => el('ram:IncludedSupplyChainTradeLineItem',
+    el('ram:AssociatedDocumentLineDocument', el('ram:LineID', line.id)),
+    el('ram:SpecifiedTradeProduct', el('ram:Name', line.name)),
+    el('ram:SpecifiedLineTradeAgreement',
+      el('ram:NetPriceProductTradePrice', el('ram:ChargeAmount', formatPrice(line.price, currency)))
+    ),
+    el('ram:SpecifiedLineTradeDelivery', el('ram:BilledQuantity', { unitCode: line.unitCode }, String(line.quantity))),
+    el('ram:SpecifiedLineTradeSettlement',
+      tradeTax('ram:ApplicableTradeTax', line.vat),
+      line.allowance !== 0 && el('ram:SpecifiedTradeAllowanceCharge',
+        indicator(false),
+        amount('ram:ActualAmount', line.allowance),
+        el('ram:Reason', 'Discount')
+      ),
+      el('ram:SpecifiedTradeSettlementLineMonetarySummation', amount('ram:LineTotalAmount', line.netAmount))
+    )
+  ));
+
+  const payment = model.payment;
+  const isIban = payment?.meansCode === '58';
+
+  return renderXml(el('rsm:CrossIndustryInvoice', NAMESPACES,
+    el('rsm:ExchangedDocumentContext',
+      el('ram:GuidelineSpecifiedDocumentContextParameter', el('ram:ID', guideline))
+    ),
+    el('rsm:ExchangedDocument',
+      el('ram:ID', model.number),
+      el('ram:TypeCode', model.typeCode),
+      dateTime('ram:IssueDateTime', model.issueDate),
+      !isMinimum && el('ram:IncludedNote', el('ram:Content', model.note))
+    ),
+    el('rsm:SupplyChainTradeTransaction',
+      lineItems,
+      el('ram:ApplicableHeaderTradeAgreement',
+        el('ram:BuyerReference', model.buyerReference),
+        party('ram:SellerTradeParty', model.seller),
+        party('ram:BuyerTradeParty', model.buyer, true)
+      ),
+      required(el('ram:ApplicableHeaderTradeDelivery')),
+      el('ram:ApplicableHeaderTradeSettlement',
+        !isMinimum && el('ram:PaymentReference', payment?.reference),
+        el('ram:InvoiceCurrencyCode', currency),
+        !isMinimum && payment && el('ram:SpecifiedTradeSettlementPaymentMeans',
+          el('ram:TypeCode', payment.meansCode),
+          el('ram:PayeePartyCreditorFinancialAccount',
+            el(isIban ? 'ram:IBANID' : 'ram:ProprietaryID', payment.account),
+            isFull && el('ram:AccountName', payment.accountName)
+          ),
+          isFull && el('ram:PayeeSpecifiedCreditorFinancialInstitution', el('ram:BICID', payment.bic))
+        ),
+        !isMinimum && model.vatBreakdown.map(row => el('ram:ApplicableTradeTax',
+          amount('ram:CalculatedAmount', row.tax),
+          el('ram:TypeCode', 'VAT'),
+          el('ram:ExemptionReason', row.exemptionReason),
+          amount('ram:BasisAmount', row.taxable),
+          el('ram:CategoryCode', row.vat.category),
+          el('ram:RateApplicablePercent', formatPercent(row.vat.rate))
+        )),
+        !isMinimum && model.allowancesCharges.map(entry => el('ram:SpecifiedTradeAllowanceCharge',
+          indicator(entry.charge),
+          amount('ram:ActualAmount', entry.amount),
+          el('ram:Reason', entry.reason),
+          tradeTax('ram:CategoryTradeTax', entry.vat)
+        )),
+        !isMinimum && el('ram:SpecifiedTradePaymentTerms',
+          el('ram:Description', model.paymentTerms),
+          dateTime('ram:DueDateDateTime', model.dueDate)
+        ),
+        el('ram:SpecifiedTradeSettlementHeaderMonetarySummation',
+          !isMinimum && amount('ram:LineTotalAmount', totals.lineTotal),
+          !isMinimum && totals.chargeTotal !== 0 && amount('ram:ChargeTotalAmount', totals.chargeTotal),
+          !isMinimum && totals.allowanceTotal !== 0 && amount('ram:AllowanceTotalAmount', totals.allowanceTotal),
+          amount('ram:TaxBasisTotalAmount', totals.taxExclusive),
+          el('ram:TaxTotalAmount', { currencyID: currency }, formatAmount(totals.tax, currency)),
+          isFull && totals.rounding !== 0 && amount('ram:RoundingAmount', totals.rounding),
+          amount('ram:GrandTotalAmount', totals.taxInclusive),
+          totals.prepaid !== 0 && amount('ram:TotalPrepaidAmount', totals.prepaid),
+          amount('ram:DuePayableAmount', totals.payable)
+        ),
+        !isMinimum && el('ram:InvoiceReferencedDocument', el('ram:IssuerAssignedID', model.precedingInvoice))
+      )
+    )
+  ));
+};
@@ -0,0 +1,30 @@
+import type { InvoiceData } from '@/lib/invoice';
+import { getInvoice, saveInvoice } from '@/lib/invoice-store';
+import { applyCredits } from '@/lib/payments';
+import { getAppliedCredit } from '@/lib/credit-notes';
+
+const updateCredits = async (originalId: string, update: (invoice: InvoiceData) => InvoiceData['credits']) => {
+  const original = await getInvoice(originalId);
+  if (!original) {
+    throw new Error('The credited invoice no longer exists');
+  }
+  const { id, createdAt, updatedAt: _updatedAt, ...data } = original;
+  return saveInvoice(id, { ...data, ...applyCredits(data, update(data)) }, createdAt);
+};
+
+// Called when a credit note is issued: the original invoice's balance goes down by its total
+export const applyCreditNote = (creditNote: InvoiceData & { id: string }) => {
+  if (!creditNote.reference) return Promise.resolve(undefined);
+  const credit = getAppliedCredit(creditNote);
+  return updateCredits(creditNote.reference.id, invoice => [
+    ...invoice.credits.filter(existing => existing.creditNoteId !== credit.creditNoteId),
+    credit
+  ]);
+};
+
+// Called when an issued credit note is voided
+export const revokeCreditNote = (creditNote: InvoiceData & { id: string }) => {
+  if (!creditNote.reference) return Promise.resolve(undefined);
+  return updateCredits(creditNote.reference.id, invoice =>
+    invoice.credits.filter(existing => existing.creditNoteId !== creditNote.id));
+};
@@ -0,0 +1,84 @@
+import { createId, todayISO, type AppliedCredit, type InvoiceData, type InvoiceItem } from '@/lib/invoice';
+import { divide, multiply, roundMoney, subtract, sum, toDecimal, toNumber } from '@/lib/money';
+import { DEFAULT_CREDIT_NOTE_SERIES } from '@/lib/numbering';
+import { recalculateItems, calculateTotals } from '@/lib/pricing';
+
+// Only an invoice that has actually gone out can be credited; drafts are simply edited
+export const canCreditInvoice = (invoice: Pick<InvoiceData, 'documentType' | 'status' | 'finalizedAt'>) =>
+  invoice.documentType === 'invoice' && !!invoice.finalizedAt && invoice.status !== 'draft' && invoice.status !== 'void';
+
+// A credit note line counts against the original line it was copied from. Lines of credit
+// notes made before lines were linked are matched by description and rate.
+const creditsLine = (line: InvoiceItem, item: InvoiceItem) =>
+  line.creditedItemId ? line.creditedItemId === item.id : line.description === item.description && line.rate === item.rate;
+
+// The quantity of each of the original's lines that has not been credited yet, by line id.
+// Void credit notes credit nothing.
+export const getCreditableQuantities = (
+  original: InvoiceData & { id: string },
+  documents: InvoiceData[]
+): Record<string, number> => {
+  const creditLines = documents
+    .filter(document => document.documentType === 'credit-note' && document.reference?.id === original.id && document.status !== 'void')
+    .flatMap(creditNote => creditNote.items);
+  return Object.fromEntries(original.items.map(item => {
+    const credited = sum(creditLines.filter(line => creditsLine(line, item)).map(line => toDecimal(-line.quantity)));
+    const left = toNumber(subtract(toDecimal(item.quantity), credited));
+    return [item.id, item.quantity >= 0 ? Math.max(left, 0) : Math.min(left, 0)];
+  }));
+};
+
+// Copies the selected lines as negative quantities at the original rates, for what is left
+// to credit of each. Percentage adjustments carry over so the credit mirrors what was
+// charged; fixed adjustments apply to the invoice as a whole and cannot be apportioned to
+// some of its lines, so they do not. A fixed line discount is credited in proportion.
+export const createCreditNote = (
+  original: InvoiceData & { id: string },
+  itemIds: string[],
+  documents: InvoiceData[] = []
+): InvoiceData => {
+  const creditable = getCreditableQuantities(original, documents);
+  const credited = original.items.filter(item => itemIds.includes(item.id) && creditable[item.id] !== 0);
+  const creditedDiscount = (item: InvoiceItem) => {
+    if (item.discount?.type !== 'fixed') return item.discount;
+    const share = divide(multiply(toDecimal(item.discount.value), toDecimal(creditable[item.id])), toDecimal(item.quantity));
+    return { ...item.discount, value: -toNumber(roundMoney(share, original.currency, original.rounding.mode)) };
+  };
+  const creditNote: InvoiceData = {
+    ...structuredClone(original),
+    documentType: 'credit-note',
+    reference: { id: original.id, number: original.invoiceNumber, type: original.documentType },
+    invoiceNumber: '',
+    seriesId: DEFAULT_CREDIT_NOTE_SERIES.id,
+    finalizedAt: undefined,
+    sender: undefined,
+    invoiceDate: todayISO(),
+    dueDate: '',
+    paymentTerms: null,
+    items: credited.map(item => ({
+      ...item,
+      id: createId(),
+      quantity: -creditable[item.id],
+      discount: creditedDiscount(item),
+      creditedItemId: item.id
+    })),
+    sections: original.sections.filter(section => credited.some(item => item.sectionId === section.id)),
+    notes: `Credit for invoice ${original.invoiceNumber}.`,
+    adjustments: original.adjustments.filter(adjustment => adjustment.type === 'percent'),
+    recurringProfileId: undefined,
+    status: 'draft',
+    statusHistory: [],
+    contacts: [],
+    payments: [],
+    credits: [],
+    lateCharges: []
+  };
+  return { ...creditNote, items: recalculateItems(creditNote) };
+};
+
+// The credit note's total is negative; the original's balance goes down by its size
+export const getAppliedCredit = (creditNote: InvoiceData & { id: string }): AppliedCredit => ({
+  creditNoteId: creditNote.id,
+  number: creditNote.invoiceNumber,
+  amount: -calculateTotals(creditNote).total
+});
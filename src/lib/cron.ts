@@ -0,0 +1,90 @@
+import { addDays, parseISODate, toISODate } from '@/lib/dates';
+
+// Standard five-field cron expressions ("minute hour day-of-month month day-of-week") with
+// lists, ranges and steps. Invoices are generated per day, so only the date fields select
+// runs; minute and hour are validated but otherwise ignored.
+
+interface CronField {
+  values: Set<number>;
+  restricted: boolean; // false for "*", which matters for the day-of-month/day-of-week rule
+}
+
+export interface CronSchedule {
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+const FIELD_NAMES = ['minute', 'hour', 'day of month', 'month', 'day of week'];
+
+// Searching further than this means the expression can never match, e.g. "0 0 31 2 *"
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const parseField = (field: string, index: number): CronField => {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid ${FIELD_NAMES[index]} field "${field}"`);
+
+  field.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw invalid();
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      end = to ?? (stepText === undefined ? from : max);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw invalid();
+    }
+    for (let value = start; value <= end; value += step) {
+      // Both 0 and 7 mean Sunday
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  });
+
+  return { values, restricted: field !== '*' };
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A cron expression needs five fields: minute hour day-of-month month day-of-week');
+  }
+  const [, , dayOfMonth, month, dayOfWeek] = fields.map(parseField);
+  return { dayOfMonth, month, dayOfWeek };
+};
+
+export const matchesCron = (schedule: CronSchedule, date: string) => {
+  const value = parseISODate(date);
+  if (!schedule.month.values.has(value.getUTCMonth() + 1)) return false;
+  const dayOfMonth = schedule.dayOfMonth.values.has(value.getUTCDate());
+  const dayOfWeek = schedule.dayOfWeek.values.has(value.getUTCDay());
+  // As in cron, when both day fields are restricted a date matching either one runs
+  if (schedule.dayOfMonth.restricted && schedule.dayOfWeek.restricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+};
+
+// First matching date on or after `from`
+export const nextCronDate = (expression: string, from: string): string => {
+  const schedule = parseCron(expression);
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const date = addDays(from, offset);
+    if (matchesCron(schedule, date)) return date;
+  }
+  throw new Error(`"${expression}" never matches a calendar date`);
+};
+
+// Null when the expression is valid and matches at least one upcoming date
+export const getCronError = (expression: string) => {
+  try {
+    nextCronDate(expression, toISODate(new Date()));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+};
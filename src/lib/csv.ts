@@ -0,0 +1,57 @@
+// A small RFC 4180 reader: quoted fields may contain the delimiter, line breaks and doubled
+// quotes. Spreadsheet exports in many European locales use semicolons, so the delimiter is
+// taken from the header line.
+
+export type CsvRow = { line: number; cells: string[] }; // line is 1-based, where the row starts
+
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return (header.match(/;/g) || []).length > (header.match(/,/g) || []).length ? ';' : ',';
+};
+
+export const parseCsv = (text: string): CsvRow[] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(field);
+    if (cells.some(cell => cell.trim() !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || cells.length > 0) endRow();
+  return rows;
+};
@@ -0,0 +1,76 @@
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currencies offered in the editor; any ISO 4217 code works with the formatter
+export const CURRENCIES: { code: string; name: string }[] = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CNY', name: 'Chinese Yuan' },
+  { code: 'INR', name: 'Indian Rupee' },
+  { code: 'SEK', name: 'Swedish Krona' },
+  { code: 'NOK', name: 'Norwegian Krone' },
+  { code: 'DKK', name: 'Danish Krone' },
+  { code: 'PLN', name: 'Polish Zloty' },
+  { code: 'BRL', name: 'Brazilian Real' },
+  { code: 'MXN', name: 'Mexican Peso' },
+  { code: 'ZAR', name: 'South African Rand' },
+  { code: 'AED', name: 'UAE Dirham' },
+  { code: 'SAR', name: 'Saudi Riyal' },
+  { code: 'KWD', name: 'Kuwaiti Dinar' },
+  { code: 'BHD', name: 'Bahraini Dinar' },
+  { code: 'PKR', name: 'Pakistani Rupee' },
+  { code: 'KRW', name: 'South Korean Won' }
+];
+
+// Number formats offered for a client's documents; without one, amounts follow the browser
+export const LOCALES: { code: string; name: string }[] = [
+  { code: 'en-US', name: 'English (United States)' },
+  { code: 'en-GB', name: 'English (United Kingdom)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'de-DE', name: 'German (Germany)' },
+  { code: 'de-CH', name: 'German (Switzerland)' },
+  { code: 'fr-FR', name: 'French (France)' },
+  { code: 'it-IT', name: 'Italian (Italy)' },
+  { code: 'es-ES', name: 'Spanish (Spain)' },
+  { code: 'nl-NL', name: 'Dutch (Netherlands)' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'sv-SE', name: 'Swedish (Sweden)' },
+  { code: 'pl-PL', name: 'Polish (Poland)' },
+  { code: 'ja-JP', name: 'Japanese (Japan)' }
+];
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (currency: string, locale?: string, currencyDisplay: 'symbol' | 'code' = 'symbol') => {
+  const key = `${locale || ''}:${currency}:${currencyDisplay}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+// Number of minor-unit digits, e.g. JPY 0, USD 2, KWD 3
+export const getCurrencyDigits = (currency: string = DEFAULT_CURRENCY) =>
+  getFormatter(currency).resolvedOptions().maximumFractionDigits;
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY, locale?: string) =>
+  // jsPDF's standard fonts have no narrow no-break space, which some locales use for grouping
+  getFormatter(currency, locale).format(amount).replace(/\u202f/g, '\u00a0');
+
+// The characters jsPDF's standard fonts can encode (Windows-1252)
+const WIN_ANSI = /^[\x20-\x7e\xa0-\xff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]*$/;
+
+// Amounts on the invoice document, which is also drawn as a PDF: currencies whose symbol the
+// PDF fonts cannot encode, such as ₹ and ₩, are written with their ISO code instead
+export const formatDocumentMoney = (amount: number, currency: string = DEFAULT_CURRENCY, locale?: string) => {
+  const formatted = formatMoney(amount, currency, locale);
+  return WIN_ANSI.test(formatted)
+    ? formatted
+    : getFormatter(currency, locale, 'code').format(amount).replace(/\u202f/g, '\u00a0');
+};
@@ -0,0 +1,36 @@
+// Calendar arithmetic on YYYY-MM-DD strings. Everything runs in UTC so a date never
+// shifts by a day because of the user's time zone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const parseISODate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const toISODate = (date: Date) => date.toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number) =>
+  toISODate(new Date(parseISODate(date).getTime() + days * DAY_MS));
+
+export const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Clamps to the last day of the month, so Jan 31 + 1 month is Feb 28 (or 29)
+export const addMonths = (date: string, months: number) => {
+  const value = parseISODate(date);
+  const target = new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth() + months, 1));
+  const day = Math.min(value.getUTCDate(), daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+  target.setUTCDate(day);
+  return toISODate(target);
+};
+
+export const endOfMonth = (date: string) => {
+  const value = parseISODate(date);
+  return toISODate(new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth() + 1, 0)));
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseISODate(to).getTime() - parseISODate(from).getTime()) / DAY_MS);
+
+export const formatMonth = (date: string, locale?: string) =>
+  parseISODate(date).toLocaleDateString(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
@@ -0,0 +1,58 @@
+const DB_NAME = 'invoice-generator';
+const DB_VERSION = 6;
+
+// Object stores are keyed by `id`. Add new stores here and bump DB_VERSION.
+export const STORES = ['invoices', 'settings', 'numberingSeries', 'issuedNumbers', 'recurringProfiles', 'catalog', 'billedTimeEntries'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(store: StoreName, id: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(id) as IDBRequest<T | undefined>);
+};
+
+export const putOne = async <T>(store: StoreName, value: T): Promise<T> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+  return value;
+};
+
+export const deleteOne = async (store: StoreName, id: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+};
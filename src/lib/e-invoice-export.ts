@@ -0,0 +1,99 @@
+import type { CiiProfile } from '@/lib/cii';
+import {
+  buildEInvoice,
+  checkEInvoiceSupport,
+  validateDataTypes,
+  validateEInvoice,
+  validatePeppol,
+  type EInvoice,
+  type EInvoiceIssue
+} from '@/lib/e-invoice';
+import { createFacturXPdf, validateFacturX } from '@/lib/factur-x';
+import { getFatturaPAFileName, renderFatturaPA, validateFatturaPA } from '@/lib/fatturapa';
+import type { InvoiceData } from '@/lib/invoice';
+import type { InvoiceDocument } from '@/lib/invoice-document';
+import { renderUbl } from '@/lib/ubl';
+import { renderXRechnung, validateXRechnung } from '@/lib/xrechnung';
+
+// The e-invoice formats on offer. Each validates the shared EN 16931 model with the rules of
+// its network or country and writes it in its own syntax.
+
+export type EInvoiceFormat = 'peppol' | 'factur-x' | 'xrechnung' | 'fatturapa';
+
+export const E_INVOICE_FORMATS: { value: EInvoiceFormat; label: string; description: string }[] = [
+  {
+    value: 'peppol',
+    label: 'UBL (Peppol BIS 3.0)',
+    description: 'UBL 2.1 XML for sending through a Peppol access point.'
+  },
+  {
+    value: 'factur-x',
+    label: 'Factur-X / ZUGFeRD',
+    description: 'A PDF/A-3 of the invoice with the CII XML embedded, readable by people and software alike.'
+  },
+  {
+    value: 'xrechnung',
+    label: 'XRechnung (Germany)',
+    description: 'CII XML under the XRechnung 3.0 rules, required by German public-sector clients.'
+  },
+  {
+    value: 'fatturapa',
+    label: 'FatturaPA (Italy)',
+    description: 'FatturaPA 1.2 XML for submission through the Italian exchange system (SdI).'
+  }
+];
+
+export const getEInvoiceFormat = (format: EInvoiceFormat) =>
+  E_INVOICE_FORMATS.find(entry => entry.value === format) ?? E_INVOICE_FORMATS[0];
+
+export interface EInvoiceExportOptions {
+  format: EInvoiceFormat;
+  profile: CiiProfile; // for Factur-X
+}
+
+export interface EInvoiceExport {
+  model: EInvoice;
+  issues: EInvoiceIssue[];
+}
+
+const FORMAT_RULES: Record<EInvoiceFormat, (model: EInvoice, options: EInvoiceExportOptions) => EInvoiceIssue[]> = {
+  peppol: validatePeppol,
+  'factur-x': (_model, options) => validateFacturX(options.profile),
+  xrechnung: validateXRechnung,
+  fatturapa: validateFatturaPA
+};
+
+export const prepareEInvoice = (invoice: InvoiceData, options: EInvoiceExportOptions): EInvoiceExport => {
+  const model = buildEInvoice(invoice);
+  return {
+    model,
+    issues: [
+      ...checkEInvoiceSupport(invoice),
+      ...validateEInvoice(model),
+      ...FORMAT_RULES[options.format](model, options),
+      ...validateDataTypes(model)
+    ]
+  };
+};
+
+const xmlFile = (content: string) => new Blob([content], { type: 'application/xml' });
+
+// FatturaPA files must be named after the seller's VAT ID for the SdI to accept them; the
+// other formats take the name of the PDF download
+export const createEInvoiceFile = (
+  document: InvoiceDocument,
+  model: EInvoice,
+  options: EInvoiceExportOptions,
+  baseName: string
+): { blob: Blob; fileName: string } => {
+  switch (options.format) {
+    case 'peppol':
+      return { blob: xmlFile(renderUbl(model)), fileName: `${baseName}.xml` };
+    case 'xrechnung':
+      return { blob: xmlFile(renderXRechnung(model)), fileName: `${baseName}.xml` };
+    case 'fatturapa':
+      return { blob: xmlFile(renderFatturaPA(model)), fileName: getFatturaPAFileName(model) };
+    case 'factur-x':
+      return { blob: createFacturXPdf(document, model, options.profile).output('blob'), fileName: `${baseName}.pdf` };
+  }
+};
@@ -0,0 +1,513 @@
+import {
+  createEmptyItem,
+  createId,
+  type ClientInfo,
+  type InvoiceAdjustment,
+  type InvoiceData,
+  type InvoiceItem
+} from '@/lib/invoice';
+import { add, divide, percentOf, roundMoney, sum, toDecimal, toNumber } from '@/lib/money';
+import { calculateItemAmount } from '@/lib/pricing';
+import { getUnitForCode, roundQuantity } from '@/lib/units';
+
+// Supplier invoices received as UBL (Peppol) or CII (Factur-X, XRechnung) XML, read into the
+// editor so they can be billed on with a markup. Files are parsed in the browser. Whatever
+// the editor has no place for, such as the supplier's bank details or delivery information,
+// is listed in a mapping report instead of being dropped silently.
+
+export type EInvoiceSyntax = 'UBL' | 'CII';
+
+export interface ImportedParty {
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  address: string; // street lines, then "postcode city"
+  countryCode: string;
+  vatId: string;
+  endpoint: { scheme: string; id: string } | null;
+}
+
+export interface ImportedLine {
+  id: string;
+  name: string;
+  quantity: number;
+  unitCode: string;
+  price: number; // net, per one unit
+  allowance: number;
+  charge: number;
+  netAmount: number | null; // as stated in the file
+  vatRate: number | null;
+  vatCategory: string;
+}
+
+export interface ImportedAllowanceCharge {
+  charge: boolean;
+  reason: string;
+  amount: number;
+}
+
+export interface ImportNote {
+  field: string;
+  message: string;
+  severity: 'warning' | 'info';
+}
+
+export interface ImportedEInvoice {
+  syntax: EInvoiceSyntax;
+  documentType: 'invoice' | 'credit-note';
+  number: string;
+  issueDate: string;
+  dueDate: string;
+  currency: string;
+  buyerReference: string;
+  precedingInvoice: string;
+  note: string;
+  paymentTerms: string;
+  seller: ImportedParty;
+  buyer: ImportedParty;
+  lines: ImportedLine[];
+  allowancesCharges: ImportedAllowanceCharge[];
+  prepaid: number;
+  unsupported: ImportNote[]; // elements in the file that are not read
+}
+
+export interface EInvoiceImportOptions {
+  markup: number; // percent added to every price and amount
+  client: boolean; // replace the client details with the buyer from the file
+  dates: boolean;
+  notes: boolean;
+}
+
+export interface EInvoiceImportResult {
+  items: InvoiceItem[];
+  adjustments: InvoiceAdjustment[];
+  changes: Partial<Pick<InvoiceData, 'clientInfo' | 'buyerReference' | 'invoiceDate' | 'dueDate' | 'paymentTerms' | 'notes'>>;
+  report: ImportNote[];
+}
+
+// Elements that are recognised but have no place in the editor. UBL and CII names for the
+// same business term share a label.
+const UNSUPPORTED: Record<string, { label: string; message?: string }> = {
+  PaymentMeans: { label: 'Payment instructions', message: 'Your invoice is paid to the bank account in your business profile.' },
+  SpecifiedTradeSettlementPaymentMeans: { label: 'Payment instructions', message: 'Your invoice is paid to the bank account in your business profile.' },
+  Delivery: { label: 'Delivery details' },
+  ShipToTradeParty: { label: 'Delivery details' },
+  ActualDeliverySupplyChainEvent: { label: 'Delivery details' },
+  InvoicePeriod: { label: 'Invoicing period', message: 'Mention the period in the line descriptions or notes if the client needs it.' },
+  BillingSpecifiedPeriod: { label: 'Invoicing period', message: 'Mention the period in the line descriptions or notes if the client needs it.' },
+  AdditionalDocumentReference: { label: 'Attached documents' },
+  AdditionalReferencedDocument: { label: 'Attached documents' },
+  ContractDocumentReference: { label: 'Contract reference' },
+  ContractReferencedDocument: { label: 'Contract reference' },
+  ProjectReference: { label: 'Project reference' },
+  SpecifiedProcuringProject: { label: 'Project reference' },
+  PayeeParty: { label: 'Payee' },
+  PayeeTradeParty: { label: 'Payee' },
+  TaxRepresentativeParty: { label: 'Tax representative' },
+  SellerTaxRepresentativeTradeParty: { label: 'Tax representative' },
+  DespatchDocumentReference: { label: 'Despatch advice' },
+  DespatchAdviceReferencedDocument: { label: 'Despatch advice' },
+  ReceiptDocumentReference: { label: 'Receiving advice' },
+  ReceivingAdviceReferencedDocument: { label: 'Receiving advice' },
+  AccountingCost: { label: 'Accounting reference' },
+  ReceivableSpecifiedTradeAccountingAccount: { label: 'Accounting reference' },
+  TaxPointDate: { label: 'Tax point date' },
+  TaxCurrencyCode: { label: 'Tax currency', message: 'Taxes are shown in the invoice currency only.' },
+  OrderLineReference: { label: 'Order line references' },
+  SellersItemIdentification: { label: 'Item numbers' },
+  SellerAssignedID: { label: 'Item numbers' },
+  BuyersItemIdentification: { label: 'Item numbers' },
+  BuyerAssignedID: { label: 'Item numbers' },
+  StandardItemIdentification: { label: 'Item numbers' },
+  GlobalID: { label: 'Item numbers' },
+  CommodityClassification: { label: 'Item classifications' },
+  DesignatedProductClassification: { label: 'Item classifications' },
+  AdditionalItemProperty: { label: 'Item attributes' },
+  ApplicableProductCharacteristic: { label: 'Item attributes' },
+  OriginCountry: { label: 'Country of origin' },
+  OriginTradeCountry: { label: 'Country of origin' }
+};
+
+// Counts without a unit of their own
+const GENERIC_UNIT_CODES = ['C62', 'EA', 'ZZ', 'XPP'];
+
+// --- DOM access by local name, so namespace prefixes do not matter ---
+
+const childElements = (parent: Element, name: string) =>
+  Array.from(parent.children).filter(child => child.localName === name);
+
+const find = (parent: Element | undefined, ...path: string[]): Element | undefined =>
+  path.reduce<Element | undefined>((current, name) => current && childElements(current, name)[0], parent);
+
+const findAll = (parent: Element | undefined, ...path: string[]): Element[] => {
+  const container = find(parent, ...path.slice(0, -1));
+  return container ? childElements(container, path[path.length - 1]) : [];
+};
+
+const text = (parent: Element | undefined, ...path: string[]) => find(parent, ...path)?.textContent?.trim() ?? '';
+
+const amount = (parent: Element | undefined, ...path: string[]) => {
+  const value = Number(text(parent, ...path));
+  return Number.isFinite(value) ? value : 0;
+};
+
+const optionalAmount = (parent: Element | undefined, ...path: string[]) =>
+  text(parent, ...path) === '' ? null : amount(parent, ...path);
+
+const formatAddress = (lines: string[], postalCode: string, city: string) =>
+  [...lines, [postalCode, city].filter(Boolean).join(' ')].filter(Boolean).join('\n');
+
+const toEndpoint = (element: Element | undefined) => {
+  const id = element?.textContent?.trim() ?? '';
+  return id ? { scheme: element?.getAttribute('schemeID') ?? '', id } : null;
+};
+
+// Collects the elements below the given ones that are not read, once per label
+const createUnsupportedList = () => {
+  const found = new Map<string, { message?: string; places: string[] }>();
+  return {
+    check: (element: Element | undefined, handled: string[], place = '') => {
+      Array.from(element?.children ?? []).forEach(child => {
+        if (handled.includes(child.localName)) return;
+        const { label, message } = UNSUPPORTED[child.localName] ?? { label: child.localName };
+        const entry = found.get(label) ?? { message, places: [] };
+        if (place && !entry.places.includes(place)) entry.places.push(place);
+        found.set(label, entry);
+      });
+    },
+    notes: (): ImportNote[] => [...found].map(([label, { message, places }]) => ({
+      field: label,
+      message: [`Not imported${places.length > 0 ? ` (${places.join(', ')})` : ''}.`, message].filter(Boolean).join(' '),
+      severity: 'info'
+    }))
+  };
+};
+
+// --- UBL 2.1 ---
+
+const parseUblParty = (party: Element | undefined): ImportedParty => {
+  const address = find(party, 'PostalAddress');
+  const vatScheme = findAll(party, 'PartyTaxScheme').find(scheme => text(scheme, 'TaxScheme', 'ID') === 'VAT');
+  return {
+    name: text(party, 'PartyName', 'Name') || text(party, 'PartyLegalEntity', 'RegistrationName'),
+    contactName: text(party, 'Contact', 'Name'),
+    email: text(party, 'Contact', 'ElectronicMail'),
+    phone: text(party, 'Contact', 'Telephone'),
+    address: formatAddress(
+      [text(address, 'StreetName'), text(address, 'AdditionalStreetName'), text(address, 'AddressLine', 'Line')].filter(Boolean),
+      text(address, 'PostalZone'),
+      text(address, 'CityName')
+    ),
+    countryCode: text(address, 'Country', 'IdentificationCode').toUpperCase(),
+    vatId: text(vatScheme, 'CompanyID'),
+    endpoint: toEndpoint(find(party, 'EndpointID'))
+  };
+};
+
+const UBL_HANDLED = [
+  'UBLExtensions', 'UBLVersionID', 'CustomizationID', 'ProfileID', 'ID', 'IssueDate', 'DueDate', 'InvoiceTypeCode',
+  'CreditNoteTypeCode', 'Note', 'DocumentCurrencyCode', 'BuyerReference', 'OrderReference', 'BillingReference',
+  'AccountingSupplierParty', 'AccountingCustomerParty', 'PaymentTerms', 'AllowanceCharge', 'TaxTotal',
+  'LegalMonetaryTotal', 'InvoiceLine', 'CreditNoteLine'
+];
+const UBL_LINE_HANDLED = ['ID', 'Note', 'InvoicedQuantity', 'CreditedQuantity', 'LineExtensionAmount', 'AllowanceCharge', 'Item', 'Price'];
+const UBL_ITEM_HANDLED = ['Name', 'Description', 'ClassifiedTaxCategory'];
+
+const parseUbl = (root: Element): ImportedEInvoice => {
+  const isCreditNote = root.localName === 'CreditNote';
+  const unsupported = createUnsupportedList();
+  unsupported.check(root, UBL_HANDLED);
+
+  const lines = findAll(root, isCreditNote ? 'CreditNoteLine' : 'InvoiceLine').map((line, index): ImportedLine => {
+    const id = text(line, 'ID') || String(index + 1);
+    const item = find(line, 'Item');
+    unsupported.check(line, UBL_LINE_HANDLED, `line ${id}`);
+    unsupported.check(item, UBL_ITEM_HANDLED, `line ${id}`);
+    const quantityElement = find(line, isCreditNote ? 'CreditedQuantity' : 'InvoicedQuantity');
+    const baseQuantity = amount(line, 'Price', 'BaseQuantity') || 1;
+    const lineAllowances = findAll(line, 'AllowanceCharge');
+    const total = (charge: boolean) => lineAllowances
+      .filter(entry => text(entry, 'ChargeIndicator') === String(charge))
+      .reduce((result, entry) => result + amount(entry, 'Amount'), 0);
+    return {
+      id,
+      name: [text(item, 'Name'), text(item, 'Description'), text(line, 'Note')]
+        .filter((value, position, values) => value && values.indexOf(value) === position)
+        .join('\n'),
+      quantity: amount(quantityElement),
+      unitCode: quantityElement?.getAttribute('unitCode') ?? '',
+      price: toNumber(divide(toDecimal(amount(line, 'Price', 'PriceAmount')), toDecimal(baseQuantity))),
+      allowance: total(false),
+      charge: total(true),
+      netAmount: optionalAmount(line, 'LineExtensionAmount'),
+      vatRate: optionalAmount(item, 'ClassifiedTaxCategory', 'Percent'),
+      vatCategory: text(item, 'ClassifiedTaxCategory', 'ID')
+    };
+  });
+
+  return {
+    syntax: 'UBL',
+    documentType: isCreditNote ? 'credit-note' : 'invoice',
+    number: text(root, 'ID'),
+    issueDate: text(root, 'IssueDate'),
+    dueDate: text(root, 'DueDate') || text(root, 'PaymentMeans', 'PaymentDueDate'),
+    currency: text(root, 'DocumentCurrencyCode').toUpperCase(),
+    buyerReference: text(root, 'BuyerReference') || text(root, 'OrderReference', 'ID'),
+    precedingInvoice: text(root, 'BillingReference', 'InvoiceDocumentReference', 'ID'),
+    note: findAll(root, 'Note').map(note => note.textContent?.trim() ?? '').filter(Boolean).join('\n'),
+    paymentTerms: text(root, 'PaymentTerms', 'Note'),
+    seller: parseUblParty(find(root, 'AccountingSupplierParty', 'Party')),
+    buyer: parseUblParty(find(root, 'AccountingCustomerParty', 'Party')),
+    lines,
+    allowancesCharges: findAll(root, 'AllowanceCharge').map(entry => ({
+      charge: text(entry, 'ChargeIndicator') === 'true',
+      reason: text(entry, 'AllowanceChargeReason'),
+      amount: amount(entry, 'Amount')
+    })),
+    prepaid: amount(root, 'LegalMonetaryTotal', 'PrepaidAmount'),
+    unsupported: unsupported.notes()
+  };
+};
+
+// --- UN/CEFACT CII D16B ---
+
+// Format 102 is CCYYMMDD
+const ciiDate = (parent: Element | undefined, ...path: string[]) =>
+  text(parent, ...path, 'DateTimeString').replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3');
+
+const parseCiiParty = (party: Element | undefined): ImportedParty => {
+  const address = find(party, 'PostalTradeAddress');
+  const vatRegistration = findAll(party, 'SpecifiedTaxRegistration').find(entry => find(entry, 'ID')?.getAttribute('schemeID') === 'VA');
+  return {
+    name: text(party, 'Name'),
+    contactName: text(party, 'DefinedTradeContact', 'PersonName'),
+    email: text(party, 'DefinedTradeContact', 'EmailURIUniversalCommunication', 'URIID'),
+    phone: text(party, 'DefinedTradeContact', 'TelephoneUniversalCommunication', 'CompleteNumber'),
+    address: formatAddress(
+      ['LineOne', 'LineTwo', 'LineThree'].map(line => text(address, line)).filter(Boolean),
+      text(address, 'PostcodeCode'),
+      text(address, 'CityName')
+    ),
+    countryCode: text(address, 'CountryID').toUpperCase(),
+    vatId: text(vatRegistration, 'ID'),
+    endpoint: toEndpoint(find(party, 'URIUniversalCommunication', 'URIID'))
+  };
+};
+
+const CII_AGREEMENT_HANDLED = ['BuyerReference', 'SellerTradeParty', 'BuyerTradeParty', 'BuyerOrderReferencedDocument'];
+const CII_SETTLEMENT_HANDLED = [
+  'CreditorReferenceID', 'PaymentReference', 'InvoiceCurrencyCode', 'ApplicableTradeTax', 'SpecifiedTradeAllowanceCharge',
+  'SpecifiedTradePaymentTerms', 'SpecifiedTradeSettlementHeaderMonetarySummation', 'InvoiceReferencedDocument'
+];
+const CII_PRODUCT_HANDLED = ['Name', 'Description'];
+const CII_LINE_SETTLEMENT_HANDLED = ['ApplicableTradeTax', 'SpecifiedTradeAllowanceCharge', 'SpecifiedTradeSettlementLineMonetarySummation'];
+
+const parseCii = (root: Element): ImportedEInvoice => {
+  const document = find(root, 'ExchangedDocument');
+  const transaction = find(root, 'SupplyChainTradeTransaction');
+  const agreement = find(transaction, 'ApplicableHeaderTradeAgreement');
+  const delivery = find(transaction, 'ApplicableHeaderTradeDelivery');
+  const settlement = find(transaction, 'ApplicableHeaderTradeSettlement');
+  const unsupported = createUnsupportedList();
+  unsupported.check(agreement, CII_AGREEMENT_HANDLED);
+  unsupported.check(delivery, []);
+  unsupported.check(settlement, CII_SETTLEMENT_HANDLED);
+
+  const isCharge = (entry: Element) => text(entry, 'ChargeIndicator', 'Indicator') === 'true';
+
+  const lines = findAll(transaction, 'IncludedSupplyChainTradeLineItem').map((line, index): ImportedLine => {
+    const id = text(line, 'AssociatedDocumentLineDocument', 'LineID') || String(index + 1);
+    const product = find(line, 'SpecifiedTradeProduct');
+    const lineSettlement = find(line, 'SpecifiedLineTradeSettlement');
+    unsupported.check(product, CII_PRODUCT_HANDLED, `line ${id}`);
+    unsupported.check(lineSettlement, CII_LINE_SETTLEMENT_HANDLED, `line ${id}`);
+    const price = find(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice');
+    const quantity = find(line, 'SpecifiedLineTradeDelivery', 'BilledQuantity');
+    const lineAllowances = findAll(lineSettlement, 'SpecifiedTradeAllowanceCharge');
+    const total = (charge: boolean) => lineAllowances
+      .filter(entry => isCharge(entry) === charge)
+      .reduce((result, entry) => result + amount(entry, 'ActualAmount'), 0);
+    return {
+      id,
+      name: [text(product, 'Name'), text(product, 'Description'), text(line, 'AssociatedDocumentLineDocument', 'IncludedNote', 'Content')]
+        .filter((value, position, values) => value && values.indexOf(value) === position)
+        .join('\n'),
+      quantity: amount(quantity),
+      unitCode: quantity?.getAttribute('unitCode') ?? '',
+      price: toNumber(divide(toDecimal(amount(price, 'ChargeAmount')), toDecimal(amount(price, 'BasisQuantity') || 1))),
+      allowance: total(false),
+      charge: total(true),
+      netAmount: optionalAmount(lineSettlement, 'SpecifiedTradeSettlementLineMonetarySummation', 'LineTotalAmount'),
+      vatRate: optionalAmount(lineSettlement, 'ApplicableTradeTax', 'RateApplicablePercent'),
+      vatCategory: text(lineSettlement, 'ApplicableTradeTax', 'CategoryCode')
+    };
+  });
+
+  return {
+    syntax: 'CII',
+    documentType: text(document, 'TypeCode') === '381' ? 'credit-note' : 'invoice',
+    number: text(document, 'ID'),
+    issueDate: ciiDate(document, 'IssueDateTime'),
+    dueDate: ciiDate(settlement, 'SpecifiedTradePaymentTerms', 'DueDateDateTime'),
+    currency: text(settlement, 'InvoiceCurrencyCode').toUpperCase(),
+    buyerReference: text(agreement, 'BuyerReference') || text(agreement, 'BuyerOrderReferencedDocument', 'IssuerAssignedID'),
+    precedingInvoice: text(settlement, 'InvoiceReferencedDocument', 'IssuerAssignedID'),
+    note: findAll(document, 'IncludedNote').map(note => text(note, 'Content')).filter(Boolean).join('\n'),
+    paymentTerms: text(settlement, 'SpecifiedTradePaymentTerms', 'Description'),
+    seller: parseCiiParty(find(agreement, 'SellerTradeParty')),
+    buyer: parseCiiParty(find(agreement, 'BuyerTradeParty')),
+    lines,
+    allowancesCharges: findAll(settlement, 'SpecifiedTradeAllowanceCharge').map(entry => ({
+      charge: isCharge(entry),
+      reason: text(entry, 'Reason'),
+      amount: amount(entry, 'ActualAmount')
+    })),
+    prepaid: amount(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation', 'TotalPrepaidAmount'),
+    unsupported: unsupported.notes()
+  };
+};
+
+// Throws when the file is not a UBL or CII invoice
+export const parseEInvoiceXml = (xml: string): ImportedEInvoice => {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+  if (parsed.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not well-formed XML.');
+  const root = parsed.documentElement;
+  if (root.localName === 'Invoice' || root.localName === 'CreditNote') return parseUbl(root);
+  if (root.localName === 'CrossIndustryInvoice') return parseCii(root);
+  throw new Error(`<${root.localName}> is not a UBL or CII invoice.`);
+};
+
+const toClientInfo = (party: ImportedParty): ClientInfo => ({
+  name: party.contactName || party.name,
+  company: party.contactName ? party.name : undefined,
+  email: party.email || (party.endpoint?.scheme === 'EM' ? party.endpoint.id : ''),
+  phone: party.phone || undefined,
+  address: party.address || undefined,
+  countryCode: party.countryCode || undefined,
+  taxId: party.vatId || undefined,
+  endpointId: party.endpoint && party.endpoint.scheme !== 'EM' ? `${party.endpoint.scheme}:${party.endpoint.id}` : undefined
+});
+
+type ImportTarget = Pick<InvoiceData, 'currency' | 'rounding' | 'quantityPrecision' | 'taxRates' | 'taxIds' | 'notes'>;
+
+// Turns the file into lines, adjustments and field changes for `invoice`. Credit notes become
+// negative lines, as the editor stores them; the markup is added to every price and amount.
+export const mapEInvoiceImport = (
+  imported: ImportedEInvoice,
+  invoice: ImportTarget,
+  options: EInvoiceImportOptions
+): EInvoiceImportResult => {
+  const report: ImportNote[] = [];
+  const note = (severity: ImportNote['severity'], field: string, message: string) => report.push({ field, message, severity });
+  const sign = imported.documentType === 'credit-note' ? -1 : 1;
+  const addMarkup = (value: number) => add(toDecimal(value), percentOf(toDecimal(value), options.markup));
+  // Prices keep their precision; amounts are rounded to the currency
+  const priceWithMarkup = (value: number) => toNumber(addMarkup(value));
+  const amountWithMarkup = (value: number) => toNumber(roundMoney(addMarkup(value), invoice.currency, invoice.rounding.mode));
+
+  if (imported.currency && imported.currency !== invoice.currency) {
+    note('warning', 'Currency', `The file is in ${imported.currency} and the invoice in ${invoice.currency}. Amounts were copied without conversion.`);
+  }
+  if (imported.documentType === 'credit-note') {
+    note('info', 'Document type', 'The file is a credit note, so its lines were added with negative quantities.');
+  }
+
+  const missingRates = new Set<number>();
+  const taxIdsFor = (line: ImportedLine) => {
+    if (line.vatRate === null) return undefined;
+    if (line.vatRate === 0) return [];
+    const taxRate = invoice.taxRates.find(current => !current.compound && current.rate === line.vatRate);
+    if (!taxRate) {
+      missingRates.add(line.vatRate);
+      return undefined;
+    }
+    return invoice.taxIds.length === 1 && invoice.taxIds[0] === taxRate.id ? undefined : [taxRate.id];
+  };
+
+  const items = imported.lines.map(line => {
+    const quantity = roundQuantity(sign * line.quantity, invoice.quantityPrecision);
+    if (quantity !== sign * line.quantity) {
+      note('warning', `Line ${line.id} quantity`, `${line.quantity} was rounded to ${invoice.quantityPrecision} decimal places; raise the quantity precision to keep it.`);
+    }
+    if (line.charge !== 0) {
+      note('warning', `Line ${line.id} charge`, `A charge of ${line.charge} on this line cannot be represented and was not imported.`);
+    }
+    const unitCode = line.unitCode.toUpperCase();
+    const original: InvoiceItem = {
+      ...createEmptyItem(),
+      description: line.name,
+      quantity,
+      rate: line.price,
+      unit: getUnitForCode(unitCode) ?? (GENERIC_UNIT_CODES.includes(unitCode) || !unitCode ? undefined : unitCode),
+      taxIds: taxIdsFor(line),
+      discount: line.allowance !== 0 ? { type: 'fixed', value: sign * line.allowance } : undefined
+    };
+    // A stated amount that quantity × price does not reproduce, e.g. because of a price
+    // basis the editor cannot show
+    const stated = line.netAmount === null ? null : sign * line.netAmount;
+    if (stated !== null && line.charge === 0 && Math.abs(calculateItemAmount(original, invoice) - stated) >= 0.005) {
+      note('warning', `Line ${line.id} amount`, `The file states ${stated} but quantity × price gives ${calculateItemAmount(original, invoice)}.`);
+    }
+    const item: InvoiceItem = {
+      ...original,
+      rate: priceWithMarkup(line.price),
+      discount: original.discount && { ...original.discount, value: amountWithMarkup(original.discount.value) }
+    };
+    return { ...item, amount: calculateItemAmount(item, invoice) };
+  });
+  missingRates.forEach(rate => {
+    note('warning', `VAT ${rate}%`, `No tax rate of ${rate}% is set up, so these lines use the invoice taxes. Add it under Tax Rates and select it on the lines.`);
+  });
+  if (imported.lines.some(line => line.vatCategory === 'AE' || line.vatCategory === 'K' || line.vatCategory === 'G')) {
+    note('info', 'VAT category', 'Some lines were reverse charged or exempt for the supplier; check the taxes you charge your client.');
+  }
+
+  // Files split allowances and charges by VAT rate; the editor spreads them over all lines
+  // itself, so entries with the same reason are merged. Credit notes reverse their meaning.
+  const merged = new Map<string, ImportedAllowanceCharge[]>();
+  imported.allowancesCharges.forEach(entry => {
+    const key = `${entry.charge}|${entry.reason}`;
+    merged.set(key, [...(merged.get(key) ?? []), entry]);
+  });
+  const adjustments: InvoiceAdjustment[] = [...merged.values()].map(entries => ({
+    id: createId(),
+    label: entries[0].reason,
+    kind: entries[0].charge === (sign > 0) ? 'surcharge' : 'discount',
+    timing: 'before-tax',
+    type: 'fixed',
+    value: amountWithMarkup(toNumber(sum(entries.map(entry => toDecimal(entry.amount)))))
+  }));
+  if (adjustments.length > 0) {
+    note('info', 'Allowances and charges', 'Document-level allowances and charges were added as adjustments before tax, which apply to the whole invoice.');
+  }
+  if (imported.prepaid > 0) {
+    note('warning', 'Prepaid amount', `The supplier recorded ${imported.prepaid} as already paid. Payments are not imported.`);
+  }
+
+  const changes: EInvoiceImportResult['changes'] = {};
+  if (options.client) {
+    changes.clientInfo = toClientInfo(imported.buyer);
+    changes.buyerReference = imported.buyerReference;
+  }
+  if (options.dates) {
+    if (imported.issueDate) changes.invoiceDate = imported.issueDate;
+    if (imported.dueDate) {
+      changes.dueDate = imported.dueDate;
+      changes.paymentTerms = null;
+    }
+  }
+  if (options.notes && imported.note) {
+    changes.notes = [invoice.notes.trim(), imported.note].filter(Boolean).join('\n\n');
+  }
+
+  note('info', 'Supplier', `${imported.seller.name || 'The supplier'} is not copied; your invoice is issued from your business profile.`);
+  if (imported.paymentTerms) {
+    note('info', 'Payment terms', `"${imported.paymentTerms}" was not copied; choose payment terms in the editor.`);
+  }
+  if (imported.precedingInvoice) {
+    note('info', 'Preceding invoice', `The file refers to invoice ${imported.precedingInvoice}, which is not linked.`);
+  }
+
+  return { items, adjustments, changes, report: [...report, ...imported.unsupported] };
+};
@@ -0,0 +1,491 @@
+import { getCurrencyDigits } from '@/lib/currency';
+import { EMPTY_BUSINESS_PROFILE } from '@/lib/business-profile';
+import { getItemTaxIds, type InvoiceData, type InvoiceItem } from '@/lib/invoice';
+import { roundMoney, sum, toDecimal, toNumber } from '@/lib/money';
+import { getEarlyPaymentOffer, getTermsName } from '@/lib/payment-terms';
+import { calculateTotals, formatAdjustmentLabel, getLinePricing, getTaxableAmounts } from '@/lib/pricing';
+import { getUnitCode, isStandardUnit } from '@/lib/units';
+
+// The EN 16931 semantic model of an invoice: the common ground of the European e-invoice
+// syntaxes (UBL, CII and their national profiles). It is built from an invoice once and each
+// syntax prints it, so every format carries the same amounts. Credit notes are stored with
+// negative quantities but EN 16931 expects them as positive amounts on a 381 document.
+// Business terms from the standard are noted as BT-n (fields) and BG-n (groups).
+
+export type VatCategory = 'S' | 'Z' | 'E'; // standard rated, zero rated, exempt
+
+export interface EInvoiceVat {
+  category: VatCategory;
+  rate: number;
+}
+
+export interface EInvoiceAddress {
+  lines: string[]; // BT-35, BT-36, BT-162
+  city: string; // BT-37
+  postalCode: string; // BT-38
+  countryCode: string; // BT-40
+}
+
+export interface EInvoiceEndpoint {
+  scheme: string; // EAS code, e.g. 0088 or EM for email
+  id: string;
+}
+
+export interface EInvoiceParty {
+  name: string; // BT-27 / BT-44
+  endpoint: EInvoiceEndpoint | null; // BT-34 / BT-49
+  vatId: string; // BT-31 / BT-48
+  registrationId: string; // BT-30 / BT-47
+  address: EInvoiceAddress;
+  contactName: string;
+  email: string;
+  phone: string;
+}
+
+export interface EInvoiceLine {
+  id: string; // BT-126
+  name: string; // BT-153
+  quantity: number; // BT-129
+  unitCode: string; // BT-130
+  price: number; // BT-146
+  allowance: number; // BT-136, the line discount
+  netAmount: number; // BT-131
+  vat: EInvoiceVat; // BG-30
+}
+
+// BG-20 (allowance) or BG-21 (charge): invoice-level adjustments, one per VAT group
+export interface EInvoiceAllowanceCharge {
+  charge: boolean;
+  reason: string;
+  amount: number;
+  vat: EInvoiceVat;
+}
+
+export interface EInvoiceVatBreakdown {
+  vat: EInvoiceVat;
+  taxable: number; // BT-116
+  tax: number; // BT-117
+  exemptionReason: string; // BT-120
+}
+
+export interface EInvoiceTotals {
+  lineTotal: number; // BT-106
+  allowanceTotal: number; // BT-107
+  chargeTotal: number; // BT-108
+  taxExclusive: number; // BT-109
+  tax: number; // BT-110
+  taxInclusive: number; // BT-112
+  prepaid: number; // BT-113
+  rounding: number; // BT-114
+  payable: number; // BT-115
+}
+
+export interface EInvoicePayment {
+  meansCode: string; // BT-81: 58 SEPA credit transfer, 30 other credit transfer
+  reference: string; // BT-83
+  account: string; // BT-84
+  accountName: string; // BT-85
+  bic: string; // BT-86
+}
+
+export interface EInvoice {
+  documentType: 'invoice' | 'credit-note';
+  typeCode: '380' | '381'; // BT-3
+  number: string; // BT-1
+  issueDate: string; // BT-2
+  dueDate: string; // BT-9
+  currency: string; // BT-5
+  buyerReference: string; // BT-10
+  precedingInvoice: string; // BT-25
+  note: string; // BT-22
+  paymentTerms: string; // BT-20
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+  lines: EInvoiceLine[];
+  allowancesCharges: EInvoiceAllowanceCharge[];
+  vatBreakdown: EInvoiceVatBreakdown[];
+  totals: EInvoiceTotals;
+  payment: EInvoicePayment | null;
+  fiscalRegime: string; // FatturaPA RegimeFiscale of the seller
+  recipientCode: string; // FatturaPA CodiceDestinatario of the buyer
+  expectedTotal: number; // the invoice total as shown on the PDF, for cross-checking
+}
+
+export interface EInvoiceIssue {
+  field: string;
+  rule: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+const EXEMPTION_REASON = 'Exempt from VAT';
+
+// Free-text addresses are split the way they are usually written: street lines first, then
+// "postcode city" or "city postcode" on the last line
+const parseAddress = (address: string, countryCode: string): EInvoiceAddress => {
+  const rawLines = address.split('\n').map(line => line.trim()).filter(Boolean);
+  const lines = rawLines.length === 1 ? rawLines[0].split(',').map(line => line.trim()).filter(Boolean) : rawLines;
+  const street = lines.length > 1 ? lines.slice(0, -1) : lines;
+  const last = lines.length > 1 ? lines[lines.length - 1] : '';
+  const leading = last.match(/^(\d{4,5}(?:\s?[A-Z]{2})?)\s+(.+)$/i);
+  const trailing = last.match(/^(.+?),?\s+([A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2}|\d{5}(?:-\d{4})?)$/i);
+  return {
+    lines: street.slice(0, 3),
+    city: leading ? leading[2] : trailing ? trailing[1] : last,
+    postalCode: leading ? leading[1] : trailing ? trailing[2] : '',
+    countryCode: countryCode.trim().toUpperCase()
+  };
+};
+
+// "0088:7300010000001" names a Peppol participant; without one the email address is used
+const parseEndpoint = (endpointId: string | undefined, email: string): EInvoiceEndpoint | null => {
+  const text = endpointId?.trim() ?? '';
+  if (text) {
+    const separator = text.indexOf(':');
+    return separator > 0
+      ? { scheme: text.slice(0, separator).trim().toUpperCase(), id: text.slice(separator + 1).trim() }
+      : { scheme: '', id: text };
+  }
+  return email.trim() ? { scheme: 'EM', id: email.trim() } : null;
+};
+
+// EN 16931 allows one VAT rate per line. Lines without taxes are treated as exempt.
+const getLineVat = (item: InvoiceItem, invoice: InvoiceData): EInvoiceVat => {
+  const taxIds = getItemTaxIds(item, invoice);
+  const rate = invoice.taxRates.find(taxRate => taxIds.includes(taxRate.id));
+  if (!rate) return { category: 'E', rate: 0 };
+  return { category: rate.rate > 0 ? 'S' : 'Z', rate: rate.rate };
+};
+
+const vatKey = (vat: EInvoiceVat) => `${vat.category}:${vat.rate}`;
+
+// Credit notes are stored with negative quantities (and negative fixed discounts); flipping
+// them gives the positive amounts a 381 document carries
+const withPositiveAmounts = (invoice: InvoiceData): InvoiceData => invoice.documentType !== 'credit-note' ? invoice : {
+  ...invoice,
+  items: invoice.items.map(item => ({
+    ...item,
+    quantity: -item.quantity,
+    discount: item.discount?.type === 'fixed' ? { ...item.discount, value: -item.discount.value } : item.discount
+  })),
+  adjustments: invoice.adjustments.map(adjustment =>
+    adjustment.type === 'fixed' ? { ...adjustment, value: -adjustment.value } : adjustment)
+};
+
+export const buildEInvoice = (original: InvoiceData): EInvoice => {
+  const invoice = withPositiveAmounts(original);
+  const { currency } = invoice;
+  const round = (value: number) => toNumber(roundMoney(toDecimal(value), currency, invoice.rounding.mode));
+  const total = (values: number[]) => toNumber(sum(values.map(value => toDecimal(value))));
+  // Profiles saved before a field existed lack it
+  const seller = { ...EMPTY_BUSINESS_PROFILE, ...invoice.sender };
+  const { clientInfo } = invoice;
+  const totals = calculateTotals(invoice);
+
+  const lines: EInvoiceLine[] = invoice.items.map((item, index) => {
+    const pricing = getLinePricing(item, invoice);
+    return {
+      id: String(index + 1),
+      name: item.description.trim(),
+      quantity: item.quantity,
+      unitCode: getUnitCode(item.unit),
+      price: item.rate,
+      allowance: round(pricing.discount),
+      netAmount: round(pricing.net),
+      vat: getLineVat(item, invoice)
+    };
+  });
+
+  // Invoice-level adjustments were spread over the lines in proportion to their amounts;
+  // what each VAT group received becomes one allowance or charge in that group
+  const taxable = getTaxableAmounts(invoice);
+  const groups = new Map<string, { vat: EInvoiceVat; lineTotal: number; taxable: number; tax: number }>();
+  lines.forEach((line, index) => {
+    const group = groups.get(vatKey(line.vat)) ?? { vat: line.vat, lineTotal: 0, taxable: 0, tax: 0 };
+    groups.set(vatKey(line.vat), {
+      ...group,
+      lineTotal: total([group.lineTotal, line.netAmount]),
+      taxable: total([group.taxable, taxable[index]])
+    });
+  });
+  totals.breakdown.forEach(row => {
+    const taxRate = invoice.taxRates.find(current => current.id === row.taxId);
+    const group = taxRate && groups.get(vatKey({ category: taxRate.rate > 0 ? 'S' : 'Z', rate: taxRate.rate }));
+    if (group) group.tax = total([group.tax, row.amount]);
+  });
+
+  const beforeTax = invoice.adjustments.filter(adjustment => adjustment.timing === 'before-tax');
+  const reasonFor = (charge: boolean) => beforeTax
+    .filter(adjustment => (adjustment.kind === 'surcharge') === charge)
+    .map(adjustment => formatAdjustmentLabel(adjustment, currency))
+    .join(', ') || (charge ? 'Surcharge' : 'Discount');
+  const allowancesCharges: EInvoiceAllowanceCharge[] = [...groups.values()]
+    .map(group => ({ vat: group.vat, difference: total([round(group.taxable), -group.lineTotal]) }))
+    .filter(({ difference }) => difference !== 0)
+    .map(({ vat, difference }) => ({ charge: difference > 0, reason: reasonFor(difference > 0), amount: Math.abs(difference), vat }));
+
+  const vatBreakdown: EInvoiceVatBreakdown[] = [...groups.values()].map(group => ({
+    vat: group.vat,
+    taxable: round(group.taxable),
+    tax: group.tax,
+    exemptionReason: group.vat.category === 'E' ? EXEMPTION_REASON : ''
+  }));
+
+  const lineTotal = total(lines.map(line => line.netAmount));
+  const allowanceTotal = total(allowancesCharges.filter(entry => !entry.charge).map(entry => entry.amount));
+  const chargeTotal = total(allowancesCharges.filter(entry => entry.charge).map(entry => entry.amount));
+  const taxExclusive = total([lineTotal, -allowanceTotal, chargeTotal]);
+  const tax = total(vatBreakdown.map(row => row.tax));
+  const taxInclusive = total([taxExclusive, tax]);
+  const prepaid = invoice.documentType === 'invoice' ? total(invoice.payments.map(payment => payment.amount)) : 0;
+
+  const offer = getEarlyPaymentOffer(invoice);
+  const account = seller.iban.replace(/\s+/g, '').toUpperCase();
+
+  return {
+    documentType: invoice.documentType === 'credit-note' ? 'credit-note' : 'invoice',
+    typeCode: invoice.documentType === 'credit-note' ? '381' : '380',
+    number: invoice.invoiceNumber,
+    issueDate: invoice.invoiceDate,
+    dueDate: invoice.dueDate,
+    currency,
+    buyerReference: invoice.buyerReference.trim(),
+    precedingInvoice: invoice.reference?.type === 'invoice' ? invoice.reference.number : '',
+    note: invoice.notes.trim(),
+    paymentTerms: invoice.paymentTerms
+      ? [getTermsName(invoice.paymentTerms), offer && `${offer.percent}% discount if paid by ${offer.payBy}`].filter(Boolean).join('; ')
+      : invoice.documentType === 'credit-note' && invoice.reference ? `Settled against invoice ${invoice.reference.number}` : '',
+    seller: {
+      name: seller.legalName.trim(),
+      endpoint: parseEndpoint(seller.endpointId, seller.email),
+      vatId: seller.taxId.replace(/\s+/g, '').toUpperCase(),
+      registrationId: seller.registrationNumber.trim(),
+      address: parseAddress(seller.address, seller.countryCode),
+      contactName: seller.contactName.trim(),
+      email: seller.email.trim(),
+      phone: seller.phone.trim()
+    },
+    buyer: {
+      name: (clientInfo.company || clientInfo.name).trim(),
+      endpoint: parseEndpoint(clientInfo.endpointId, clientInfo.email),
+      vatId: (clientInfo.taxId ?? '').replace(/\s+/g, '').toUpperCase(),
+      registrationId: '',
+      address: parseAddress(clientInfo.address ?? '', clientInfo.countryCode ?? ''),
+      contactName: clientInfo.company ? clientInfo.name.trim() : '',
+      email: clientInfo.email.trim(),
+      phone: (clientInfo.phone ?? '').trim()
+    },
+    lines,
+    allowancesCharges,
+    vatBreakdown,
+    totals: {
+      lineTotal,
+      allowanceTotal,
+      chargeTotal,
+      taxExclusive,
+      tax,
+      taxInclusive,
+      prepaid,
+      rounding: totals.rounding,
+      payable: total([taxInclusive, -prepaid, totals.rounding])
+    },
+    payment: account ? {
+      meansCode: /^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(account) ? '58' : '30',
+      reference: invoice.invoiceNumber,
+      account,
+      accountName: (seller.accountHolder || seller.legalName).trim(),
+      bic: seller.bic.replace(/\s+/g, '').toUpperCase()
+    } : null,
+    fiscalRegime: seller.fiscalRegime.trim().toUpperCase(),
+    recipientCode: (clientInfo.recipientCode ?? '').trim().toUpperCase(),
+    expectedTotal: totals.total
+  };
+};
+
+// Amounts as the XML syntaxes print them
+export const formatAmount = (value: number, currency: string) => value.toFixed(getCurrencyDigits(currency));
+
+// Unit prices may be more precise than the currency, e.g. 0.125 per unit
+export const formatPrice = (value: number, currency: string) => {
+  const fixed = formatAmount(value, currency);
+  return Number(fixed) === value ? fixed : String(value);
+};
+
+export const formatPercent = (rate: number) => String(Number(rate.toFixed(4)));
+
+export type PartyRole = 'Seller' | 'Buyer';
+
+export const WHERE_TO_SET: Record<PartyRole, string> = {
+  Seller: 'Set it in Settings → Business Profile.',
+  Buyer: 'Set it under Client Information.'
+};
+
+export const createIssueList = () => {
+  const issues: EInvoiceIssue[] = [];
+  return {
+    issues,
+    error: (field: string, rule: string, message: string) => issues.push({ field, rule, message, severity: 'error' }),
+    warn: (field: string, rule: string, message: string) => issues.push({ field, rule, message, severity: 'warning' })
+  };
+};
+
+// What the invoice uses that EN 16931 cannot express. These are checked on the invoice itself
+// because the model cannot represent them at all.
+export const checkEInvoiceSupport = (invoice: InvoiceData): EInvoiceIssue[] => {
+  const { issues, error, warn } = createIssueList();
+
+  if (invoice.documentType === 'quote') {
+    error('Document type (BT-3)', 'BR-04', 'Quotes cannot be sent as e-invoices. Convert the quote to an invoice first.');
+  }
+  if (invoice.taxInclusive) {
+    error('Prices include tax', 'BR-CO-10', 'E-invoices carry net prices. Enter prices without tax to export this invoice.');
+  }
+  if (invoice.rounding.strategy !== 'per-line') {
+    error('Rounding', 'BR-DEC', 'E-invoice line amounts are rounded to the currency, so rounding must be done per line.');
+  }
+  if (getCurrencyDigits(invoice.currency) > 2) {
+    error('Currency (BT-5)', 'BR-DEC', `Amounts in ${invoice.currency} have more than two decimals, which EN 16931 does not allow.`);
+  }
+  if (invoice.adjustments.some(adjustment => adjustment.timing === 'after-tax')) {
+    error('Adjustments', 'BR-CO-13', 'Adjustments after tax cannot be expressed; apply them before tax instead.');
+  }
+  if (invoice.lineDiscountTiming === 'after-tax' && invoice.items.some(item => item.discount && item.discount.value > 0)) {
+    error('Line discounts', 'BR-CO-13', 'Line discounts must reduce the taxable amount; apply them before tax instead.');
+  }
+  invoice.items.forEach((item, index) => {
+    const rates = invoice.taxRates.filter(taxRate => getItemTaxIds(item, invoice).includes(taxRate.id));
+    if (rates.length > 1) {
+      error(`Line ${index + 1} taxes`, 'BR-CO-4', 'Each line can carry only one VAT rate; remove the other taxes from this line.');
+    }
+    if (!isStandardUnit(item.unit)) {
+      warn(
+        `Line ${index + 1} unit (BT-130)`,
+        'UNECE Rec 20',
+        `"${item.unit}" has no standard unit code and is sent as C62 (one).`
+      );
+    }
+  });
+  return issues;
+};
+
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+
+// The EN 16931 business rules that depend on what the user has entered
+export const validateEInvoice = (model: EInvoice): EInvoiceIssue[] => {
+  const { issues, error, warn } = createIssueList();
+
+  if (!model.number) error('Invoice number (BT-1)', 'BR-02', 'Finalize the invoice so it has a number.');
+  if (!model.issueDate) error('Issue date (BT-2)', 'BR-03', 'The invoice needs an issue date.');
+
+  const checkParty = (party: EInvoiceParty, role: PartyRole) => {
+    const rules = role === 'Seller' ? { name: 'BR-06', country: 'BR-09' } : { name: 'BR-07', country: 'BR-11' };
+    if (!party.name) error(`${role} name`, rules.name, `The ${role.toLowerCase()} name is required. ${WHERE_TO_SET[role]}`);
+    if (!COUNTRY_CODE.test(party.address.countryCode)) {
+      error(`${role} country code`, rules.country, `A two-letter country code such as DE or NL is required. ${WHERE_TO_SET[role]}`);
+    }
+    if (party.address.lines.length === 0 || !party.address.city) {
+      warn(`${role} address`, 'BG-5', 'The address has no street or city; many receivers reject incomplete addresses.');
+    }
+  };
+  checkParty(model.seller, 'Seller');
+  checkParty(model.buyer, 'Buyer');
+
+  if (model.lines.length === 0) error('Invoice lines', 'BR-16', 'The invoice needs at least one line.');
+  model.lines.forEach(line => {
+    if (!line.name) error(`Line ${line.id} description (BT-153)`, 'BR-25', 'Every line needs a description.');
+    if (line.price < 0) {
+      error(`Line ${line.id} price (BT-146)`, 'BR-27', 'Prices cannot be negative; use a negative quantity instead.');
+    }
+  });
+
+  const categories = new Set(model.vatBreakdown.map(row => row.vat.category));
+  if (categories.size > 0 && !model.seller.vatId) {
+    error('Seller VAT ID (BT-31)', 'BR-S-02', 'Invoices with VAT need the seller VAT ID. Set it in Settings → Business Profile.');
+  } else if (model.seller.vatId && !COUNTRY_CODE.test(model.seller.vatId.slice(0, 2))) {
+    error('Seller VAT ID (BT-31)', 'BR-CO-09', 'The VAT ID must start with its country prefix, e.g. DE123456789.');
+  }
+  if (model.buyer.vatId && !COUNTRY_CODE.test(model.buyer.vatId.slice(0, 2))) {
+    error('Buyer VAT ID (BT-48)', 'BR-CO-09', 'The VAT ID must start with its country prefix, e.g. NL123456789B01.');
+  }
+
+  const minorUnit = Math.pow(10, -getCurrencyDigits(model.currency));
+  model.vatBreakdown.forEach(row => {
+    const expected = row.taxable * row.vat.rate / 100;
+    if (Math.abs(row.tax - expected) > 1) {
+      error(`VAT ${row.vat.rate}% amount (BT-117)`, 'BR-CO-17', 'The tax amount does not match the taxable amount at this rate.');
+    }
+  });
+  if (Math.abs(model.totals.taxInclusive + model.totals.rounding - model.expectedTotal) >= minorUnit / 2) {
+    error(
+      'Invoice total (BT-112)',
+      'BR-CO-15',
+      `The e-invoice adds up to ${(model.totals.taxInclusive + model.totals.rounding).toFixed(2)} but the invoice total is ${model.expectedTotal.toFixed(2)}.`
+    );
+  }
+  if (model.totals.payable > 0 && !model.dueDate && !model.paymentTerms) {
+    error('Due date (BT-9)', 'BR-CO-25', 'An amount is due, so the invoice needs a due date or payment terms.');
+  }
+  if (!model.payment && model.documentType === 'invoice') {
+    warn('Payment account (BT-84)', 'BG-16', 'No bank account is set, so the client is not told where to pay.');
+  }
+  return issues;
+};
+
+// Peppol BIS adds a buyer reference and electronic addresses for both parties, which route
+// the document through the network
+export const validatePeppol = (model: EInvoice): EInvoiceIssue[] => {
+  const { issues, error } = createIssueList();
+  if (!model.buyerReference) {
+    error('Buyer reference (BT-10)', 'PEPPOL-EN16931-R003', "Enter the client's purchase order number or reference.");
+  }
+  if (!model.seller.endpoint) {
+    error('Seller electronic address', 'PEPPOL-EN16931-R020', `Enter a Peppol participant ID or an email address. ${WHERE_TO_SET.Seller}`);
+  }
+  if (!model.buyer.endpoint) {
+    error('Buyer electronic address', 'PEPPOL-EN16931-R010', `Enter a Peppol participant ID or an email address. ${WHERE_TO_SET.Buyer}`);
+  }
+  return issues;
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY = /^[A-Z]{3}$/;
+const ELECTRONIC_ADDRESS_SCHEME = /^(\d{4}|EM)$/;
+const UNIT_CODE = /^[A-Z0-9]{2,3}$/;
+
+// The schema and code-list checks a receiver runs on the XML, whatever the syntax: date and
+// code formats, and amounts within the currency's decimals
+export const validateDataTypes = (model: EInvoice): EInvoiceIssue[] => {
+  const { issues, error } = createIssueList();
+  const digits = getCurrencyDigits(model.currency);
+  const hasValidDecimals = (value: number) => Number(value.toFixed(digits)) === value;
+
+  if (!CURRENCY.test(model.currency)) error('Currency (BT-5)', 'ISO 4217', 'The currency must be a three-letter code.');
+  if (model.issueDate && !DATE.test(model.issueDate)) error('Issue date (BT-2)', 'xsd:date', 'Dates must be written as YYYY-MM-DD.');
+  if (model.dueDate && !DATE.test(model.dueDate)) error('Due date (BT-9)', 'xsd:date', 'Dates must be written as YYYY-MM-DD.');
+
+  const checkEndpoint = (party: EInvoiceParty, role: PartyRole) => {
+    if (party.endpoint && !ELECTRONIC_ADDRESS_SCHEME.test(party.endpoint.scheme)) {
+      error(
+        `${role} electronic address`,
+        'EAS code list',
+        'A participant ID is written as scheme:identifier with a four-digit EAS scheme, e.g. 0088:7300010000001.'
+      );
+    }
+    if (party.endpoint && !party.endpoint.id) error(`${role} electronic address`, 'xsd:EndpointID', 'The identifier is empty.');
+  };
+  checkEndpoint(model.seller, 'Seller');
+  checkEndpoint(model.buyer, 'Buyer');
+
+  model.lines.forEach(line => {
+    if (!UNIT_CODE.test(line.unitCode)) error(`Line ${line.id} unit (BT-130)`, 'UNECE Rec 20', `"${line.unitCode}" is not a unit code.`);
+    if (!Number.isFinite(line.quantity)) error(`Line ${line.id} quantity (BT-129)`, 'xsd:decimal', 'The quantity is not a number.');
+    if (!hasValidDecimals(line.netAmount)) {
+      error(`Line ${line.id} amount (BT-131)`, 'BR-DEC-23', `Line amounts may have at most ${digits} decimals.`);
+    }
+  });
+
+  if (Object.values(model.totals).some(value => !hasValidDecimals(value))) {
+    error('Document totals (BG-22)', 'BR-DEC-09', `Totals may have at most ${digits} decimals.`);
+  }
+  return issues;
+};
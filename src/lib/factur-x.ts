@@ -0,0 +1,87 @@
+import type jsPDF from 'jspdf';
+import { getCiiProfile, renderCii, type CiiProfile } from '@/lib/cii';
+import type { EInvoice, EInvoiceIssue } from '@/lib/e-invoice';
+import type { InvoiceDocument } from '@/lib/invoice-document';
+import { renderInvoicePdf } from '@/lib/pdf';
+import { convertToPdfA3 } from '@/lib/pdf-a';
+
+// Factur-X (ZUGFeRD 2 in Germany): the invoice PDF as a PDF/A-3 with the CII XML embedded
+// as factur-x.xml, so one file serves both people and accounting software.
+
+export const FACTUR_X_FILE_NAME = 'factur-x.xml';
+
+const FX_NAMESPACE = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+
+const FX_PROPERTIES = [
+  { name: 'DocumentFileName', description: 'The name of the embedded XML invoice file' },
+  { name: 'DocumentType', description: 'The type of the hybrid document' },
+  { name: 'Version', description: 'The version of the Factur-X XML schema' },
+  { name: 'ConformanceLevel', description: 'The conformance level of the embedded XML' }
+];
+
+// The fx properties and the extension schema that declares them, as PDF/A requires for
+// any namespace it does not predefine
+const buildFacturXMetadata = (profile: CiiProfile) => `
+    <rdf:Description rdf:about="" xmlns:fx="${FX_NAMESPACE}">
+      <fx:DocumentType>INVOICE</fx:DocumentType>
+      <fx:DocumentFileName>${FACTUR_X_FILE_NAME}</fx:DocumentFileName>
+      <fx:Version>1.0</fx:Version>
+      <fx:ConformanceLevel>${getCiiProfile(profile).label}</fx:ConformanceLevel>
+    </rdf:Description>
+    <rdf:Description rdf:about=""
+      xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+      xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+      xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>${FX_NAMESPACE}</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>${FX_PROPERTIES.map(property => `
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>${property.name}</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>${property.description}</pdfaProperty:description>
+                </rdf:li>`).join('')}
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>`;
+
+// The document is the one the PDF download renders, so both halves of the file show the
+// same invoice
+export const createFacturXPdf = (document: InvoiceDocument, model: EInvoice, profile: CiiProfile): jsPDF =>
+  convertToPdfA3(renderInvoicePdf(document), {
+    title: `${document.title} ${model.number}`,
+    author: model.seller.name,
+    attachments: [{
+      fileName: FACTUR_X_FILE_NAME,
+      description: `Factur-X ${getCiiProfile(profile).label} invoice data`,
+      mimeType: 'text/xml',
+      // MINIMUM is not a complete invoice, so it only accompanies the PDF
+      relationship: profile === 'minimum' ? 'Data' : 'Alternative',
+      content: renderCii(model, profile)
+    }],
+    xmpExtension: buildFacturXMetadata(profile)
+  });
+
+export const validateFacturX = (profile: CiiProfile): EInvoiceIssue[] => [
+  ...profile === 'minimum' ? [{
+    field: 'Profile',
+    rule: 'Factur-X MINIMUM',
+    message: 'MINIMUM carries only the totals, so it does not count as an e-invoice in Germany or France. Use EN 16931 for B2B invoices.',
+    severity: 'warning' as const
+  }] : [],
+  {
+    field: 'PDF/A-3 fonts',
+    rule: 'ISO 19005-3 6.2.11.4',
+    message: 'The PDF uses the standard fonts without embedding them. Most readers accept this, but strict PDF/A validators will report it.',
+    severity: 'warning'
+  }
+];
+
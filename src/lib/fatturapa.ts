@@ -0,0 +1,215 @@
+import {
+  createIssueList,
+  formatAmount,
+  WHERE_TO_SET,
+  type EInvoice,
+  type EInvoiceIssue,
+  type EInvoiceParty,
+  type EInvoiceVat,
+  type PartyRole
+} from '@/lib/e-invoice';
+import { el, renderXml } from '@/lib/xml';
+
+// FatturaPA 1.2, the XML that Italy's exchange system (SdI) accepts for every domestic
+// invoice. It is not an EN 16931 syntax, so the model is mapped onto it: document-level
+// allowances and charges become lines of their own, zero-rated and exempt groups need a
+// Natura code, and the file is named after the seller's VAT ID.
+
+const NAMESPACES = {
+  'xmlns:p': 'http://ivaservizi.agenziaentrate.gov.it/docs/xsd/fatture/v1.2',
+  'xmlns:ds': 'http://www.w3.org/2000/09/xmldsig#',
+  'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance'
+};
+
+// Buyers without an SdI channel, e.g. abroad, are addressed with seven X
+const FOREIGN_RECIPIENT = 'XXXXXXX';
+
+// Public administrations are reached through a six-character office code
+const isPublicAdministration = (model: EInvoice) => model.recipientCode.length === 6;
+
+const FISCAL_REGIME = /^RF(0[1-9]|1[0-9])$/;
+const RECIPIENT_CODE = /^[A-Z0-9]{6,7}$/;
+
+// N4 (exempt) is the usual case for both; Italian zero-rated supplies have several N3 codes
+// depending on why they are not taxed
+const NATURA: Record<Exclude<EInvoiceVat['category'], 'S'>, string> = { Z: 'N4', E: 'N4' };
+
+const getNatura = (vat: EInvoiceVat) => vat.category === 'S' ? '' : NATURA[vat.category];
+
+// Quantities and unit prices take between two and eight decimals
+const formatDecimal = (value: number) => {
+  const decimals = (String(value).split('.')[1] ?? '').length;
+  return value.toFixed(Math.min(Math.max(decimals, 2), 8));
+};
+
+const isItalian = (party: EInvoiceParty) => party.address.countryCode === 'IT';
+
+// ProgressivoInvio and the file name only allow letters and digits
+const getProgressive = (model: EInvoice, length: number) =>
+  (model.number.replace(/[^A-Z0-9]/gi, '') || '1').slice(-length).toUpperCase();
+
+export const getFatturaPAFileName = (model: EInvoice) =>
+  `${model.seller.vatId}_${getProgressive(model, 5).padStart(5, '0')}.xml`;
+
+const fiscalId = (vatId: string) => vatId && el('IdFiscaleIVA', el('IdPaese', vatId.slice(0, 2)), el('IdCodice', vatId.slice(2)));
+
+// Foreign addresses still need a CAP, which the SdI documents as 00000
+const sede = (party: EInvoiceParty) => el('Sede',
+  el('Indirizzo', party.address.lines.join(', ')),
+  el('CAP', isItalian(party) ? party.address.postalCode : '00000'),
+  el('Comune', party.address.city),
+  el('Nazione', party.address.countryCode)
+);
+
+export const renderFatturaPA = (model: EInvoice) => {
+  const { currency, seller, buyer } = model;
+  const amount = (name: string, value: number) => el(name, formatAmount(value, currency));
+  const recipientCode = isItalian(buyer) ? model.recipientCode : FOREIGN_RECIPIENT;
+  // A buyer ID without a country prefix is an Italian codice fiscale
+  const buyerHasVatId = /^[A-Z]{2}/.test(buyer.vatId) && !/^[A-Z]{6}\d{2}/.test(buyer.vatId);
+
+  const lines = [
+    ...model.lines.map(line => ({
+      name: line.name,
+      quantity: line.quantity as number | null,
+      unitCode: line.unitCode,
+      price: line.price,
+      discount: line.quantity !== 0 ? Number((line.allowance / line.quantity).toFixed(8)) : 0,
+      total: line.netAmount,
+      vat: line.vat
+    })),
+    ...model.allowancesCharges.map(entry => {
+      const value = entry.charge ? entry.amount : -entry.amount;
+      return { name: entry.reason, quantity: null, unitCode: '', price: value, discount: 0, total: value, vat: entry.vat };
+    })
+  ];
+
+  const payment = model.payment;
+  const transmissionFormat = isPublicAdministration(model) ? 'FPA12' : 'FPR12';
+
+  return renderXml(el('p:FatturaElettronica', { versione: transmissionFormat, ...NAMESPACES },
+    el('FatturaElettronicaHeader',
+      el('DatiTrasmissione',
+        el('IdTrasmittente', el('IdPaese', seller.vatId.slice(0, 2)), el('IdCodice', seller.vatId.slice(2))),
+        el('ProgressivoInvio', getProgressive(model, 10)),
+        el('FormatoTrasmissione', transmissionFormat),
+        el('CodiceDestinatario', recipientCode)
+      ),
+      el('CedentePrestatore',
+        el('DatiAnagrafici',
+          fiscalId(seller.vatId),
+          el('Anagrafica', el('Denominazione', seller.name)),
+          el('RegimeFiscale', model.fiscalRegime)
+        ),
+        sede(seller),
+        el('Contatti', el('Telefono', seller.phone), el('Email', seller.email))
+      ),
+      el('CessionarioCommittente',
+        el('DatiAnagrafici',
+          buyerHasVatId ? fiscalId(buyer.vatId) : el('CodiceFiscale', buyer.vatId),
+          el('Anagrafica', el('Denominazione', buyer.name))
+        ),
+        sede(buyer)
+      )
+    ),
+    el('FatturaElettronicaBody',
+      el('DatiGenerali',
+        el('DatiGeneraliDocumento',
+          el('TipoDocumento', model.documentType === 'credit-note' ? 'TD04' : 'TD01'),
+          el('Divisa', currency),
+          el('Data', model.issueDate),
+          el('Numero', model.number),
+          amount('ImportoTotaleDocumento', model.totals.taxInclusive + model.totals.rounding),
+          model.totals.rounding !== 0 && amount('Arrotondamento', model.totals.rounding),
+          // Causale is limited to 200 characters per element
+          (model.note.match(/[\s\S]{1,200}/g) ?? []).map(text => el('Causale', text))
+        ),
+        model.buyerReference && el('DatiOrdineAcquisto', el('IdDocumento', model.buyerReference)),
+        model.precedingInvoice && el('DatiFattureCollegate', el('IdDocumento', model.precedingInvoice))
+      ),
+      el('DatiBeniServizi',
+        lines.map((line, index) => el('DettaglioLinee',
+          el('NumeroLinea', index + 1),
+          el('Descrizione', line.name),
+          line.quantity !== null && el('Quantita', formatDecimal(line.quantity)),
+          line.unitCode !== 'C62' && el('UnitaMisura', line.unitCode),
+          el('PrezzoUnitario', formatDecimal(line.price)),
+          line.discount !== 0 && el('ScontoMaggiorazione', el('Tipo', 'SC'), el('Importo', formatDecimal(line.discount))),
+          el('PrezzoTotale', formatDecimal(line.total)),
+          el('AliquotaIVA', line.vat.rate.toFixed(2)),
+          el('Natura', getNatura(line.vat))
+        )),
+        model.vatBreakdown.map(row => el('DatiRiepilogo',
+          el('AliquotaIVA', row.vat.rate.toFixed(2)),
+          el('Natura', getNatura(row.vat)),
+          amount('ImponibileImporto', row.taxable),
+          amount('Imposta', row.tax),
+          el('EsigibilitaIVA', 'I'),
+          row.vat.category !== 'S' && el('RiferimentoNormativo', row.exemptionReason || 'Operazione non imponibile')
+        ))
+      ),
+      payment && model.totals.payable > 0 && el('DatiPagamento',
+        el('CondizioniPagamento', 'TP02'),
+        el('DettaglioPagamento',
+          el('ModalitaPagamento', 'MP05'),
+          el('DataScadenzaPagamento', model.dueDate),
+          amount('ImportoPagamento', model.totals.payable),
+          payment.meansCode === '58' && el('IBAN', payment.account),
+          el('BIC', payment.bic)
+        )
+      )
+    )
+  ));
+};
+
+// What the SdI rejects beyond EN 16931: the fiscal regime, the routing code, Italian IDs and
+// postcodes
+export const validateFatturaPA = (model: EInvoice): EInvoiceIssue[] => {
+  const { issues, error, warn } = createIssueList();
+  const { seller, buyer } = model;
+
+  if (!seller.vatId) error('Seller VAT ID', 'IdFiscaleIVA', `FatturaPA identifies the seller by VAT ID. ${WHERE_TO_SET.Seller}`);
+  if (!model.fiscalRegime) {
+    error('Fiscal regime', 'RegimeFiscale', `Enter the seller's fiscal regime, e.g. RF01 for the ordinary regime. ${WHERE_TO_SET.Seller}`);
+  } else if (!FISCAL_REGIME.test(model.fiscalRegime)) {
+    error('Fiscal regime', 'RegimeFiscale', `"${model.fiscalRegime}" is not a fiscal regime code; they run from RF01 to RF19.`);
+  }
+
+  if (isItalian(buyer)) {
+    if (!model.recipientCode) {
+      error(
+        'Recipient code',
+        'CodiceDestinatario',
+        `Enter the client's SdI code: 7 characters for businesses (0000000 if they receive by PEC), 6 for public administrations. ${WHERE_TO_SET.Buyer}`
+      );
+    } else if (!RECIPIENT_CODE.test(model.recipientCode)) {
+      error('Recipient code', 'CodiceDestinatario', 'The SdI code has 7 characters, or 6 for public administrations.');
+    }
+    if (!buyer.vatId) {
+      error('Buyer VAT ID', 'IdFiscaleIVA', `Italian clients need a partita IVA or codice fiscale. ${WHERE_TO_SET.Buyer}`);
+    }
+  }
+
+  const checkAddress = (party: EInvoiceParty, role: PartyRole) => {
+    if (party.address.lines.length === 0 || !party.address.city) {
+      error(`${role} address`, 'Sede', `FatturaPA requires a street and a city. ${WHERE_TO_SET[role]}`);
+    }
+    if (isItalian(party) && !/^\d{5}$/.test(party.address.postalCode)) {
+      error(`${role} postcode`, 'CAP', `Italian addresses need a five-digit CAP. ${WHERE_TO_SET[role]}`);
+    }
+  };
+  checkAddress(seller, 'Seller');
+  checkAddress(buyer, 'Buyer');
+
+  if (model.vatBreakdown.some(row => row.vat.category !== 'S')) {
+    warn(
+      'VAT nature',
+      'Natura',
+      'Lines without VAT are sent as N4 (exempt). Zero-rated supplies such as exports have their own N3 codes; check with your accountant.'
+    );
+  }
+  if (model.currency !== 'EUR') {
+    warn('Currency', 'Divisa', 'The SdI accepts other currencies, but amounts are usually expected in EUR.');
+  }
+  return issues;
+};
@@ -0,0 +1,273 @@
+import { getPaymentInstructions, getSenderLines, hasBusinessProfile } from '@/lib/business-profile';
+import { formatDocumentMoney } from '@/lib/currency';
+import { DOCUMENT_TYPE_LABELS, getDisplayNumber, type InvoiceData, type InvoiceItem } from '@/lib/invoice';
+import { getEarlyPaymentOffer, getTermsDescription, getTermsName } from '@/lib/payment-terms';
+import { getPaymentSummary } from '@/lib/payments';
+import { calculateTotals, getLinePricing } from '@/lib/pricing';
+import { getSectionSubtotal, groupItems } from '@/lib/sections';
+import { formatQuantity } from '@/lib/units';
+
+// The invoice as it is presented, independent of the medium. The on-screen preview and
+// the PDF renderer both draw from this model, so the two can only differ in typography.
+
+export type DocumentAlign = 'left' | 'center' | 'right';
+
+export interface DocumentTheme {
+  primary: string;
+  secondary: string;
+  accent: string;
+  headingFont: string;
+  bodyFont: string;
+}
+
+export interface DocumentField {
+  label: string;
+  value: string;
+}
+
+export interface DocumentParty {
+  heading: string;
+  name: string;
+  lines: string[];
+}
+
+export interface DocumentColumn {
+  key: string;
+  header: string;
+  width: number; // percent of the content width
+  align: DocumentAlign;
+}
+
+// Heading rows have a single cell spanning the table; subtotal rows are drawn in bold
+export type DocumentRowKind = 'item' | 'heading' | 'subtotal';
+
+export interface DocumentRow {
+  id: string;
+  kind: DocumentRowKind;
+  cells: string[];
+  value: number; // what the row adds to a running subtotal
+}
+
+export interface DocumentTable {
+  columns: DocumentColumn[];
+  rows: DocumentRow[];
+  carryForward: boolean; // show carried/brought forward subtotals across page breaks
+}
+
+export interface DocumentTotal {
+  id: string;
+  label: string;
+  value: string;
+}
+
+export interface DocumentSection {
+  id: string;
+  heading: string;
+  table?: DocumentTable;
+  text?: string;
+}
+
+export interface InvoiceDocument {
+  logo?: string; // image data URL
+  title: string;
+  number: string;
+  currency: string;
+  locale?: string;
+  theme: DocumentTheme;
+  fields: DocumentField[];
+  parties: DocumentParty[];
+  items: DocumentTable;
+  totals: DocumentTotal[];
+  grandTotal: DocumentTotal;
+  balance: DocumentTotal[]; // payments, credits and balance due, once any are recorded
+  sections: DocumentSection[];
+  footer: string[]; // repeated at the bottom of every page
+}
+
+export const DEFAULT_DOCUMENT_THEME: DocumentTheme = {
+  primary: '#2563eb',
+  secondary: '#1f2937',
+  accent: '#f59e0b',
+  headingFont: 'inherit',
+  bodyFont: 'inherit'
+};
+
+const resolveTheme = (theme: InvoiceData['theme']): DocumentTheme => theme ? {
+  primary: theme.colors.primary,
+  secondary: theme.colors.secondary,
+  accent: theme.colors.accent,
+  headingFont: theme.fonts.heading,
+  bodyFont: theme.fonts.body
+} : DEFAULT_DOCUMENT_THEME;
+
+// Column widths are shared by the preview and the PDF; the description takes what is left
+const itemColumns = (hasUnits: boolean, hasLineDiscounts: boolean): DocumentColumn[] => {
+  const columns: DocumentColumn[] = [
+    { key: 'description', header: 'Description', width: 0, align: 'left' },
+    { key: 'quantity', header: 'Qty', width: 8, align: 'center' },
+    ...(hasUnits ? [{ key: 'unit', header: 'Unit', width: 9, align: 'left' as const }] : []),
+    { key: 'rate', header: 'Rate', width: 15, align: 'right' },
+    ...(hasLineDiscounts ? [
+      { key: 'price', header: 'Price', width: 15, align: 'right' as const },
+      { key: 'discount', header: 'Discount', width: 14, align: 'right' as const }
+    ] : []),
+    { key: 'amount', header: 'Amount', width: 16, align: 'right' }
+  ];
+  const fixed = columns.reduce((total, column) => total + column.width, 0);
+  return columns.map(column => column.width ? column : { ...column, width: 100 - fixed });
+};
+
+// Shown under the total once anything has been paid or credited
+const balanceRows = (invoice: InvoiceData, money: (amount: number) => string): DocumentTotal[] => {
+  if (invoice.payments.length === 0 && invoice.credits.length === 0) return [];
+  const summary = getPaymentSummary(invoice);
+  return [
+    ...(invoice.payments.length > 0 ? [{ id: 'amount-paid', label: 'Amount paid', value: money(summary.paid) }] : []),
+    ...invoice.credits.map(credit => ({
+      id: `credit-note-${credit.number}`,
+      label: `Credit note ${credit.number}`,
+      value: money(-credit.amount)
+    })),
+    summary.overpaid > 0
+      ? { id: 'credit', label: 'Credit', value: money(summary.overpaid) }
+      : { id: 'balance-due', label: 'Balance due', value: money(summary.balance) }
+  ];
+};
+
+export const buildInvoiceDocument = (invoice: InvoiceData): InvoiceDocument => {
+  const { currency, clientInfo, sender } = invoice;
+  const money = (amount: number) => formatDocumentMoney(amount, currency, clientInfo.locale);
+  const totals = calculateTotals(invoice);
+  const hasLineDiscounts = invoice.items.some(item => item.discount && item.discount.value > 0);
+  const hasUnits = invoice.items.some(item => item.unit);
+
+  const columns = itemColumns(hasUnits, hasLineDiscounts);
+  const itemRow = (item: InvoiceItem): DocumentRow => {
+    const pricing = getLinePricing(item, invoice);
+    return {
+      id: item.id,
+      kind: 'item',
+      cells: [
+        item.description,
+        formatQuantity(item.quantity, invoice.quantityPrecision, invoice.clientInfo.locale),
+        ...(hasUnits ? [item.unit ?? ''] : []),
+        money(item.rate),
+        ...(hasLineDiscounts ? [money(pricing.original), pricing.discount ? money(-pricing.discount) : ''] : []),
+        money(pricing.net)
+      ],
+      value: pricing.net
+    };
+  };
+  // Sections without items are left out. Heading and subtotal rows add nothing to the running
+  // subtotal, so amounts carried across a page break count each item once.
+  const items: DocumentTable = {
+    columns,
+    carryForward: true,
+    rows: groupItems(invoice)
+      .filter(group => group.items.length > 0)
+      .flatMap(({ section, items: groupedItems }) => section ? [
+        { id: `section-${section.id}`, kind: 'heading' as const, cells: [section.title || 'Untitled section'], value: 0 },
+        ...groupedItems.map(itemRow),
+        ...(section.showSubtotal ? [{
+          id: `subtotal-${section.id}`,
+          kind: 'subtotal' as const,
+          cells: columns.map((_column, index) => index === 0
+            ? `Subtotal ${section.title}`.trim()
+            : index === columns.length - 1 ? money(getSectionSubtotal(groupedItems)) : ''),
+          value: 0
+        }] : [])
+      ] : groupedItems.map(itemRow))
+  };
+
+  const adjustmentRows = (timing: 'before-tax' | 'after-tax') => totals.adjustments
+    .filter(row => row.timing === timing)
+    .map(row => ({ id: row.id, label: row.label, value: money(row.amount) }));
+
+  const sections: DocumentSection[] = [];
+  if (totals.breakdown.length > 0) {
+    sections.push({
+      id: 'tax-breakdown',
+      heading: `Tax Breakdown${invoice.taxInclusive ? ' (prices include tax)' : ''}`,
+      table: {
+        columns: [
+          { key: 'tax', header: 'Tax', width: 50, align: 'left' },
+          { key: 'taxable', header: 'Taxable Amount', width: 25, align: 'right' },
+          { key: 'amount', header: 'Tax Amount', width: 25, align: 'right' }
+        ],
+        carryForward: false,
+        rows: totals.breakdown.map(row => ({
+          id: row.taxId,
+          kind: 'item' as const,
+          cells: [row.label, money(row.taxable), money(row.amount)],
+          value: row.amount
+        }))
+      }
+    });
+  }
+  if (invoice.paymentTerms && invoice.documentType !== 'credit-note') {
+    const offer = getEarlyPaymentOffer(invoice);
+    sections.push({
+      id: 'payment-terms',
+      heading: 'Payment Terms:',
+      text: [
+        `${getTermsName(invoice.paymentTerms)}. ${getTermsDescription(invoice.paymentTerms)}`,
+        ...(offer ? [
+          `Pay ${money(offer.amount)} by ${offer.payBy} to take the ${offer.percent}% early-payment discount of ${money(offer.discount)}.`
+        ] : [])
+      ].join('\n')
+    });
+  }
+  if (invoice.notes) {
+    sections.push({ id: 'notes', heading: 'Notes:', text: invoice.notes });
+  }
+
+  const isCreditNote = invoice.documentType === 'credit-note';
+  // A quote has a validity date where an invoice has a due date
+  const closingDate = invoice.documentType === 'quote'
+    ? { label: 'Valid until', value: invoice.validUntil }
+    : { label: 'Due', value: invoice.dueDate };
+
+  return {
+    logo: sender?.logo,
+    title: DOCUMENT_TYPE_LABELS[invoice.documentType].toUpperCase(),
+    number: getDisplayNumber(invoice),
+    currency,
+    locale: clientInfo.locale,
+    theme: resolveTheme(invoice.theme),
+    fields: [
+      ...(isCreditNote && invoice.reference ? [{ label: 'Credit for invoice', value: invoice.reference.number }] : []),
+      ...(invoice.reference?.type === 'quote' ? [{ label: 'Quote', value: invoice.reference.number }] : []),
+      ...(!isCreditNote && invoice.reference?.type === 'invoice'
+        ? [{ label: 'Relates to invoice', value: invoice.reference.number }]
+        : []),
+      { label: 'Date', value: invoice.invoiceDate },
+      ...(closingDate.value ? [closingDate] : [])
+    ],
+    parties: [
+      ...(sender && hasBusinessProfile(sender) ? [{
+        heading: 'From:',
+        name: sender.legalName,
+        lines: getSenderLines(sender)
+      }] : []),
+      {
+        heading: 'Bill To:',
+        name: clientInfo.name,
+        lines: [clientInfo.company, clientInfo.email, clientInfo.phone, clientInfo.address]
+          .filter((line): line is string => Boolean(line))
+      }
+    ],
+    items,
+    totals: [
+      { id: 'subtotal', label: 'Subtotal', value: money(totals.subtotal) },
+      ...adjustmentRows('before-tax'),
+      ...totals.breakdown.map(row => ({ id: row.taxId, label: row.label, value: money(row.amount) })),
+      ...adjustmentRows('after-tax'),
+      ...(totals.rounding !== 0 ? [{ id: 'rounding', label: 'Rounding', value: money(totals.rounding) }] : [])
+    ],
+    grandTotal: { id: 'total', label: 'Total', value: money(totals.total) },
+    balance: balanceRows(invoice, money),
+    sections,
+    // Quotes and credit notes are not paid, so only invoices carry payment instructions
+    footer: sender && invoice.documentType === 'invoice' ? getPaymentInstructions(sender, invoice.invoiceNumber) : []
+  };
+};
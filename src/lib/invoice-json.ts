@@ -0,0 +1,257 @@
+import { z } from 'zod';
+import { EMPTY_BUSINESS_PROFILE } from '@/lib/business-profile';
+import { normalizeInvoice, type InvoiceData } from '@/lib/invoice';
+import { recalculateItems } from '@/lib/pricing';
+import { MAX_QUANTITY_PRECISION } from '@/lib/units';
+
+// The portable JSON format for a complete invoice, for moving invoices between browsers or
+// into other tools. A file is an envelope around the invoice exactly as the editor keeps it:
+//
+//   {
+//     "format": "invoice-generator/invoice",
+//     "version": 1,
+//     "exportedAt": "2026-10-19T09:30:00.000Z",
+//     "invoice": { "documentType": "invoice", "invoiceNumber": "INV-2026-0001", ... }
+//   }
+//
+// The invoice carries its items, client, theme, notes, taxes, payments and status history;
+// `invoiceSchema` below is the reference for every field. Amounts are numbers in the
+// invoice currency and dates are YYYY-MM-DD. Line amounts are recalculated on import.
+//
+// Versions:
+//   0  a bare invoice record without an envelope, as saved in the browser by any release
+//   1  the envelope above
+//
+// When the invoice shape changes incompatibly, bump INVOICE_JSON_VERSION, update the schema
+// and add a migration from the previous version. Files are migrated one version at a time
+// and validated against the current schema, so files from every earlier version still import.
+
+export const INVOICE_JSON_FORMAT = 'invoice-generator/invoice';
+export const INVOICE_JSON_VERSION = 1;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+const optionalDate = z.union([isoDate, z.literal('')]);
+const amount = z.number().finite();
+
+const discountSchema = z.object({
+  type: z.enum(['percent', 'fixed']),
+  value: amount
+});
+
+const itemSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  quantity: amount,
+  rate: amount,
+  unit: z.string().optional(),
+  amount,
+  taxIds: z.array(z.string()).optional(),
+  discount: discountSchema.optional(),
+  sectionId: z.string().optional(),
+  creditedItemId: z.string().optional()
+});
+
+const clientSchema = z.object({
+  name: z.string(),
+  email: z.string(),
+  company: z.string().optional(),
+  address: z.string().optional(),
+  phone: z.string().optional(),
+  numberPrefix: z.string().optional(),
+  countryCode: z.string().optional(),
+  taxId: z.string().optional(),
+  endpointId: z.string().optional(),
+  recipientCode: z.string().optional(),
+  eInvoiceFormat: z.enum(['peppol', 'factur-x', 'xrechnung', 'fatturapa']).optional(),
+  locale: z.string().optional()
+});
+
+// Senders are copied from the business profile when an invoice is finalized, so older
+// invoices lack the fields added to the profile since
+const senderSchema = z.preprocess(
+  value => isObject(value) ? { ...EMPTY_BUSINESS_PROFILE, ...value } : value,
+  z.object({
+    legalName: z.string(),
+    address: z.string(),
+    countryCode: z.string(),
+    email: z.string(),
+    contactName: z.string(),
+    phone: z.string(),
+    endpointId: z.string(),
+    taxId: z.string(),
+    registrationNumber: z.string(),
+    fiscalRegime: z.string(),
+    bankName: z.string(),
+    accountHolder: z.string(),
+    iban: z.string(),
+    bic: z.string(),
+    logo: z.string().optional()
+  })
+);
+
+const themeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  colors: z.object({ primary: z.string(), secondary: z.string(), accent: z.string() }),
+  fonts: z.object({ heading: z.string(), body: z.string() })
+});
+
+const documentTypeSchema = z.enum(['invoice', 'credit-note', 'quote']);
+const statusSchema = z.enum(['draft', 'sent', 'partially-paid', 'paid', 'accepted', 'declined', 'void']);
+const timingSchema = z.enum(['before-tax', 'after-tax']);
+
+const referenceSchema = z.object({ id: z.string(), number: z.string(), type: documentTypeSchema });
+
+const invoiceSchema = z.object({
+  documentType: documentTypeSchema,
+  reference: referenceSchema.optional(),
+  convertedTo: referenceSchema.optional(),
+  invoiceNumber: z.string(),
+  seriesId: z.string(),
+  finalizedAt: z.string().optional(),
+  invoiceDate: isoDate,
+  dueDate: optionalDate,
+  paymentTerms: z.object({
+    id: z.string(),
+    basis: z.enum(['invoice-date', 'end-of-month']),
+    days: z.number().int().nonnegative(),
+    discount: z.object({ percent: amount, days: z.number().int().nonnegative() }).optional()
+  }).nullable(),
+  validUntil: optionalDate,
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected a three-letter currency code'),
+  quantityPrecision: z.number().int().min(0).max(MAX_QUANTITY_PRECISION),
+  sender: senderSchema.optional(),
+  clientInfo: clientSchema,
+  buyerReference: z.string(),
+  items: z.array(itemSchema),
+  sections: z.array(z.object({ id: z.string(), title: z.string(), showSubtotal: z.boolean() })),
+  notes: z.string(),
+  theme: themeSchema.nullable(),
+  taxRates: z.array(z.object({ id: z.string(), name: z.string(), rate: amount, compound: z.boolean() })),
+  taxIds: z.array(z.string()),
+  taxInclusive: z.boolean(),
+  rounding: z.object({
+    mode: z.enum(['half-up', 'half-even', 'up', 'down']),
+    strategy: z.enum(['per-line', 'per-total']),
+    cashIncrement: z.number().finite().nonnegative()
+  }),
+  lineDiscountTiming: timingSchema,
+  adjustments: z.array(discountSchema.extend({
+    id: z.string(),
+    label: z.string(),
+    kind: z.enum(['discount', 'surcharge']),
+    timing: timingSchema
+  })),
+  recurringProfileId: z.string().optional(),
+  status: statusSchema,
+  statusHistory: z.array(z.object({ from: statusSchema, to: statusSchema, at: z.string() })),
+  contacts: z.array(z.object({ at: z.string(), note: z.string() })),
+  payments: z.array(z.object({
+    id: z.string(),
+    date: isoDate,
+    method: z.enum(['bank-transfer', 'card', 'cash', 'check', 'other']),
+    reference: z.string(),
+    amount
+  })),
+  credits: z.array(z.object({ creditNoteId: z.string(), number: z.string(), amount })),
+  lateCharges: z.array(z.object({ invoiceId: z.string(), asOf: isoDate, amount }))
+}).superRefine((invoice, context) => {
+  // Lines refer to the invoice's own taxes and sections
+  const taxIds = new Set(invoice.taxRates.map(taxRate => taxRate.id));
+  const sectionIds = new Set(invoice.sections.map(section => section.id));
+  invoice.taxIds.forEach((id, index) => {
+    if (!taxIds.has(id)) context.addIssue({ code: z.ZodIssueCode.custom, path: ['taxIds', index], message: `Unknown tax "${id}"` });
+  });
+  invoice.items.forEach((item, index) => {
+    item.taxIds?.forEach((id, taxIndex) => {
+      if (!taxIds.has(id)) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['items', index, 'taxIds', taxIndex], message: `Unknown tax "${id}"` });
+      }
+    });
+    if (item.sectionId && !sectionIds.has(item.sectionId)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['items', index, 'sectionId'], message: `Unknown section "${item.sectionId}"` });
+    }
+  });
+});
+
+const invoiceFileSchema = z.object({
+  format: z.literal(INVOICE_JSON_FORMAT),
+  version: z.literal(INVOICE_JSON_VERSION),
+  exportedAt: z.string(),
+  invoice: invoiceSchema
+});
+
+export interface InvoiceFile {
+  format: typeof INVOICE_JSON_FORMAT;
+  version: typeof INVOICE_JSON_VERSION;
+  exportedAt: string;
+  invoice: InvoiceData;
+}
+
+// Each migration turns a file of the version it is keyed by into one of the next version
+const MIGRATIONS: Record<number, (file: JsonObject) => JsonObject> = {
+  // Stored records carry database keys and may predate fields added since
+  0: record => {
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...invoice } = record;
+    return { format: INVOICE_JSON_FORMAT, version: 1, exportedAt: '', invoice: normalizeInvoice(invoice) };
+  }
+};
+
+const getVersion = (file: JsonObject) => {
+  if (file.format === undefined && file.version === undefined) return 0;
+  if (file.format !== INVOICE_JSON_FORMAT) throw new Error('The file is not an invoice exported by this app.');
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version)) throw new Error('The file has no format version.');
+  return file.version;
+};
+
+const formatIssue = (issue: z.ZodIssue) => `${issue.path.join('.') || 'file'}: ${issue.message}`;
+
+export const createInvoiceFile = (invoice: InvoiceData): InvoiceFile => ({
+  format: INVOICE_JSON_FORMAT,
+  version: INVOICE_JSON_VERSION,
+  exportedAt: new Date().toISOString(),
+  invoice
+});
+
+export const serializeInvoice = (invoice: InvoiceData) => JSON.stringify(createInvoiceFile(invoice), null, 2);
+
+// Reads a file of any version up to the current one. Throws with a message naming the
+// first fields that failed validation.
+export const parseInvoiceFile = (text: string): InvoiceData => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(data)) throw new Error('The file does not contain an invoice.');
+
+  let file = data;
+  let version = getVersion(file);
+  if (version > INVOICE_JSON_VERSION) {
+    throw new Error(`The file uses format version ${version}, which is newer than this app supports (${INVOICE_JSON_VERSION}).`);
+  }
+  while (version < INVOICE_JSON_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Files of format version ${version} cannot be read.`);
+    file = migrate(file);
+    version += 1;
+  }
+
+  const result = invoiceFileSchema.safeParse(file);
+  if (!result.success) {
+    const issues = result.error.issues;
+    throw new Error(
+      `The invoice is not valid: ${issues.slice(0, 3).map(formatIssue).join('; ')}${issues.length > 3 ? ` and ${issues.length - 3} more` : ''}.`
+    );
+  }
+  // Without strict null checks zod infers every field as optional; the schema has checked
+  // that the required ones are present
+  const invoice = result.data.invoice as InvoiceData;
+  return { ...invoice, items: recalculateItems(invoice) };
+};
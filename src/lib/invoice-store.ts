@@ -0,0 +1,94 @@
+import { getAll, getOne, putOne, deleteOne } from '@/lib/db';
+import { createId, normalizeInvoice, type DocumentReference, type InvoiceData } from '@/lib/invoice';
+import { recordImportedNumber } from '@/lib/numbering-store';
+
+export interface SavedInvoice extends InvoiceData {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const CURRENT_INVOICE_KEY = 'invoice-generator:current-invoice';
+
+export const listInvoices = async (): Promise<SavedInvoice[]> => {
+  const invoices = await getAll<SavedInvoice>('invoices');
+  return invoices.map(normalizeInvoice).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getInvoice = async (id: string): Promise<SavedInvoice | undefined> => {
+  const invoice = await getOne<SavedInvoice>('invoices', id);
+  return invoice && normalizeInvoice(invoice);
+};
+
+export const toSavedInvoice = (id: string, data: InvoiceData, createdAt?: string): SavedInvoice => {
+  const now = new Date().toISOString();
+  // Structured clone keeps the stored copy independent of live React state
+  return {
+    ...structuredClone(data),
+    id,
+    createdAt: createdAt || now,
+    updatedAt: now
+  };
+};
+
+export const saveInvoice = (id: string, data: InvoiceData, createdAt?: string): Promise<SavedInvoice> =>
+  putOne<SavedInvoice>('invoices', toSavedInvoice(id, data, createdAt));
+
+export const deleteInvoice = (id: string) => deleteOne('invoices', id);
+
+export const duplicateInvoice = async (id: string): Promise<SavedInvoice> => {
+  const original = await getInvoice(id);
+  if (!original) {
+    throw new Error(`Invoice ${id} not found`);
+  }
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...data } = original;
+  // The copy is a new draft; it gets its own number when it is finalized
+  return saveInvoice(createId(), {
+    ...data,
+    invoiceNumber: '',
+    finalizedAt: undefined,
+    sender: undefined,
+    convertedTo: undefined,
+    recurringProfileId: undefined,
+    status: 'draft',
+    statusHistory: [],
+    contacts: [],
+    payments: [],
+    credits: [],
+    lateCharges: [],
+    items: data.items.map(item => ({ ...item, id: createId() }))
+  });
+};
+
+// Saves an invoice read from a file as a new record. A finalized invoice keeps its number
+// only while no invoice here uses it, and the number is recorded as issued so it cannot be
+// handed out again. Links to other documents are remapped to the documents here with the
+// same number, or cleared.
+export const importInvoice = async (data: InvoiceData): Promise<SavedInvoice> => {
+  const existing = await listInvoices();
+  const findId = (type: DocumentReference['type'], number: string) =>
+    existing.find(invoice => invoice.documentType === type && invoice.invoiceNumber === number)?.id ?? '';
+  const relink = (linked?: DocumentReference) => linked && { ...linked, id: linked.number ? findId(linked.type, linked.number) : '' };
+
+  const id = createId();
+  if (data.finalizedAt && data.invoiceNumber) {
+    if (existing.some(invoice => invoice.invoiceNumber === data.invoiceNumber)) {
+      throw new Error(`Invoice number ${data.invoiceNumber} is already used in this browser.`);
+    }
+    await recordImportedNumber(data.invoiceNumber, data.seriesId, id);
+  }
+  return saveInvoice(id, {
+    ...data,
+    invoiceNumber: data.finalizedAt ? data.invoiceNumber : '',
+    reference: relink(data.reference),
+    convertedTo: relink(data.convertedTo),
+    recurringProfileId: undefined,
+    credits: data.credits.map(credit => ({ ...credit, creditNoteId: findId('credit-note', credit.number) })),
+    lateCharges: data.lateCharges.map(charge => ({ ...charge, invoiceId: '' }))
+  });
+};
+
+// The invoice open in the editor survives a page reload
+export const getCurrentInvoiceId = () => localStorage.getItem(CURRENT_INVOICE_KEY);
+
+export const setCurrentInvoiceId = (id: string) => localStorage.setItem(CURRENT_INVOICE_KEY, id);
@@ -0,0 +1,194 @@
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { DEFAULT_SERIES } from '@/lib/numbering';
+import { DEFAULT_ROUNDING, type RoundingSettings } from '@/lib/money';
+import { DEFAULT_TAX_RATES, type TaxRate } from '@/lib/tax';
+import { DEFAULT_QUANTITY_PRECISION } from '@/lib/units';
+import type { ContactRecord, StatusTransition, StoredStatus } from '@/lib/status';
+import type { EInvoiceFormat } from '@/lib/e-invoice-export';
+import type { Payment } from '@/lib/payments';
+import type { BusinessProfile } from '@/lib/business-profile';
+import type { PaymentTerms } from '@/lib/payment-terms';
+import type { BilledLateCharge } from '@/lib/late-fees';
+import type { ItemSection } from '@/lib/sections';
+
+export interface InvoiceItem {
+  id: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  unit?: string; // unit of measure, e.g. hours; see UNIT_PRESETS
+  amount: number; // net of the line discount
+  taxIds?: string[]; // overrides the invoice taxes for this line
+  discount?: Discount;
+  sectionId?: string; // the ItemSection the line is grouped under
+  creditedItemId?: string; // on a credit note, the line of the original invoice it credits
+}
+
+export interface Discount {
+  type: 'percent' | 'fixed';
+  value: number;
+}
+
+export type AdjustmentTiming = 'before-tax' | 'after-tax';
+
+// Invoice-level discount or surcharge, e.g. a 10% loyalty discount or a fixed rush fee
+export interface InvoiceAdjustment extends Discount {
+  id: string;
+  label: string;
+  kind: 'discount' | 'surcharge';
+  timing: AdjustmentTiming;
+}
+
+export interface ClientInfo {
+  name: string;
+  email: string;
+  company?: string;
+  address?: string;
+  phone?: string;
+  numberPrefix?: string; // used by the {CLIENT} numbering token
+  countryCode?: string; // ISO 3166-1 alpha-2
+  taxId?: string; // the client's VAT number
+  endpointId?: string; // Peppol participant ID as scheme:identifier
+  recipientCode?: string; // FatturaPA CodiceDestinatario
+  eInvoiceFormat?: EInvoiceFormat; // offered first when exporting an e-invoice for this client
+  locale?: string; // BCP 47 tag for amounts on the client's documents, e.g. de-DE
+}
+
+export interface BrandTheme {
+  id: string;
+  name: string;
+  colors: {
+    primary: string;
+    secondary: string;
+    accent: string;
+  };
+  fonts: {
+    heading: string;
+    body: string;
+  };
+}
+
+export type DocumentType = 'invoice' | 'credit-note' | 'quote';
+
+// The document another one was created from, e.g. the invoice a credit note reverses or
+// the quote an invoice was converted from
+export interface DocumentReference {
+  id: string;
+  number: string;
+  type: DocumentType;
+}
+
+// A credit note that has been issued against this invoice
+export interface AppliedCredit {
+  creditNoteId: string;
+  number: string;
+  amount: number; // positive; reduces the balance due
+}
+
+// Everything the editor needs to reproduce an invoice exactly as it was saved
+export interface InvoiceData {
+  documentType: DocumentType;
+  reference?: DocumentReference;
+  convertedTo?: DocumentReference; // set on a quote once it has been turned into an invoice
+  invoiceNumber: string; // empty until the invoice is finalized
+  seriesId: string;
+  finalizedAt?: string;
+  invoiceDate: string;
+  dueDate: string;
+  paymentTerms: PaymentTerms | null; // null when the due date is entered by hand
+  validUntil: string; // quotes only
+  currency: string; // ISO 4217 code
+  quantityPrecision: number; // decimal places kept on line quantities
+  sender?: BusinessProfile; // copied from the business profile when the invoice is finalized
+  clientInfo: ClientInfo;
+  buyerReference: string; // the client's purchase order or reference, quoted on e-invoices
+  items: InvoiceItem[];
+  sections: ItemSection[];
+  notes: string;
+  theme: BrandTheme | null;
+  taxRates: TaxRate[];
+  taxIds: string[]; // taxes applied to every line without its own selection
+  taxInclusive: boolean;
+  rounding: RoundingSettings;
+  lineDiscountTiming: AdjustmentTiming;
+  adjustments: InvoiceAdjustment[];
+  recurringProfileId?: string; // set on drafts generated from a recurring profile
+  status: StoredStatus;
+  statusHistory: StatusTransition[];
+  contacts: ContactRecord[];
+  payments: Payment[];
+  credits: AppliedCredit[];
+  lateCharges: BilledLateCharge[];
+}
+
+export const createId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+export const todayISO = () => new Date().toISOString().split('T')[0];
+
+export const createEmptyItem = (): InvoiceItem => ({
+  id: createId(),
+  description: '',
+  quantity: 1,
+  rate: 0,
+  amount: 0
+});
+
+export const createBlankInvoice = (taxRates: TaxRate[] = DEFAULT_TAX_RATES): InvoiceData => ({
+  documentType: 'invoice',
+  invoiceNumber: '',
+  seriesId: DEFAULT_SERIES.id,
+  invoiceDate: todayISO(),
+  dueDate: '',
+  paymentTerms: null,
+  validUntil: '',
+  currency: DEFAULT_CURRENCY,
+  quantityPrecision: DEFAULT_QUANTITY_PRECISION,
+  clientInfo: {
+    name: '',
+    email: '',
+    company: '',
+    address: '',
+    phone: ''
+  },
+  buyerReference: '',
+  items: [createEmptyItem()],
+  sections: [],
+  notes: '',
+  theme: null,
+  taxRates,
+  taxIds: taxRates.map(taxRate => taxRate.id),
+  taxInclusive: false,
+  rounding: DEFAULT_ROUNDING,
+  lineDiscountTiming: 'before-tax',
+  adjustments: [],
+  status: 'draft',
+  statusHistory: [],
+  contacts: [],
+  payments: [],
+  credits: [],
+  lateCharges: []
+});
+
+// Invoices saved by older versions lack newer fields; fill them with the defaults
+export const normalizeInvoice = <T extends Partial<InvoiceData>>(data: T): T & InvoiceData => ({
+  ...createBlankInvoice(),
+  ...data
+});
+
+export const getDisplayNumber = (invoice: Pick<InvoiceData, 'invoiceNumber'>) => invoice.invoiceNumber || 'DRAFT';
+
+// Clients are not stored separately, so invoices are matched to a client by email, falling
+// back to the company or name
+export const isSameClient = (a: ClientInfo, b: ClientInfo) => {
+  const key = (client: ClientInfo) => (client.email || client.company || client.name).trim().toLowerCase();
+  return key(a) !== '' && key(a) === key(b);
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: 'Invoice',
+  'credit-note': 'Credit Note',
+  quote: 'Quote'
+};
+
+export const getItemTaxIds = (item: InvoiceItem, invoice: Pick<InvoiceData, 'taxIds'>) =>
+  item.taxIds ?? invoice.taxIds;
@@ -0,0 +1,21 @@
+import { getInvoice, listInvoices, saveInvoice } from '@/lib/invoice-store';
+import type { BilledLateCharge } from '@/lib/late-fees';
+
+// Records on the overdue invoice that its charges up to `billed.asOf` have been billed
+export const recordLateCharge = async (overdueId: string, billed: BilledLateCharge) => {
+  const overdue = await getInvoice(overdueId);
+  if (!overdue) {
+    throw new Error('The overdue invoice no longer exists');
+  }
+  const { id, createdAt, updatedAt: _updatedAt, ...data } = overdue;
+  return saveInvoice(id, { ...data, lateCharges: [...data.lateCharges, billed] }, createdAt);
+};
+
+// Called when the invoice that billed charges is deleted, so they can be billed again
+export const releaseLateCharges = async (billingId: string) => {
+  const overdue = (await listInvoices()).filter(invoice => invoice.lateCharges.some(entry => entry.invoiceId === billingId));
+  await Promise.all(overdue.map(({ id, createdAt, updatedAt: _updatedAt, ...data }) => saveInvoice(id, {
+    ...data,
+    lateCharges: data.lateCharges.filter(entry => entry.invoiceId !== billingId)
+  }, createdAt)));
+};
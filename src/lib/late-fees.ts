@@ -0,0 +1,196 @@
+import { addDays, daysBetween } from '@/lib/dates';
+import { createEmptyItem, todayISO, type InvoiceData, type InvoiceItem } from '@/lib/invoice';
+import {
+  add,
+  compare,
+  divide,
+  multiply,
+  percentOf,
+  round,
+  roundMoney,
+  subtract,
+  sum,
+  toDecimal,
+  toNumber,
+  ZERO,
+  type Decimal
+} from '@/lib/money';
+import { calculateTotals } from '@/lib/pricing';
+import { getEffectiveStatus } from '@/lib/status';
+
+// Late charges on an overdue invoice. A flat fee is charged once; interest accrues on the
+// unpaid balance from the due date, with each dated payment reducing the balance from the
+// day it was received. Nothing is charged while the invoice is within its grace period.
+
+export type LateFeeMethod = 'flat' | 'simple' | 'compound';
+
+export interface LateFeePolicy {
+  enabled: boolean;
+  method: LateFeeMethod;
+  flatFee: number;
+  annualRate: number; // percent
+  graceDays: number;
+  maxAnnualRate: number | null; // legal maximum, percent; interest never exceeds what it allows
+}
+
+// Charges already billed, so the next bill only covers what has accrued since
+export interface BilledLateCharge {
+  invoiceId: string; // the invoice the charge was billed on
+  asOf: string;
+  amount: number;
+}
+
+export interface LateCharge {
+  asOf: string;
+  daysLate: number;
+  principal: number; // unpaid balance on the as-of date
+  accrued: number; // everything accrued up to the as-of date
+  billed: number; // accrued charges billed earlier
+  charge: number; // accrued minus billed
+}
+
+export const LATE_FEE_METHODS: { value: LateFeeMethod; label: string }[] = [
+  { value: 'flat', label: 'Flat fee' },
+  { value: 'simple', label: 'Simple interest' },
+  { value: 'compound', label: 'Compound interest (daily)' }
+];
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  enabled: false,
+  method: 'simple',
+  flatFee: 40,
+  annualRate: 8,
+  graceDays: 0,
+  maxAnnualRate: null
+};
+
+const DAYS_PER_YEAR = 365;
+
+interface BalancePeriod {
+  balance: Decimal;
+  days: number;
+}
+
+// Intermediate interest keeps the money module's working precision
+const INTEREST_SCALE = 10;
+
+const atLeastZero = (value: Decimal) => compare(value, ZERO) > 0 ? value : ZERO;
+
+const smaller = (a: Decimal, b: Decimal) => compare(a, b) <= 0 ? a : b;
+
+// Splits the time from the due date to the as-of date at each payment. Credit notes have no
+// date of their own and reduce the balance from the start.
+const getBalancePeriods = (invoice: InvoiceData, asOf: string): BalancePeriod[] => {
+  const credited = sum(invoice.credits.map(credit => toDecimal(credit.amount)));
+  const payments = invoice.payments.filter(payment => payment.date <= asOf);
+  const paidOnTime = sum(payments.filter(payment => payment.date <= invoice.dueDate).map(payment => toDecimal(payment.amount)));
+  let balance = subtract(subtract(toDecimal(calculateTotals(invoice).total), credited), paidOnTime);
+  let from = invoice.dueDate;
+  const periods: BalancePeriod[] = [];
+  payments
+    .filter(payment => payment.date > invoice.dueDate)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(payment => {
+      periods.push({ balance: atLeastZero(balance), days: daysBetween(from, payment.date) });
+      balance = subtract(balance, toDecimal(payment.amount));
+      from = payment.date;
+    });
+  periods.push({ balance: atLeastZero(balance), days: daysBetween(from, asOf) });
+  return periods;
+};
+
+const simpleInterest = (periods: BalancePeriod[], annualRate: number) =>
+  sum(periods.map(period =>
+    divide(multiply(percentOf(period.balance, annualRate), toDecimal(period.days)), toDecimal(DAYS_PER_YEAR))));
+
+// Interest compounds daily on the balance plus interest accrued so far; payments settle
+// the balance before the interest
+const compoundInterest = (periods: BalancePeriod[], annualRate: number) => {
+  const dailyRate = annualRate / 100 / DAYS_PER_YEAR;
+  return periods.reduce((interest, period) => {
+    const growth = toDecimal(Math.pow(1 + dailyRate, period.days) - 1);
+    return round(add(interest, multiply(add(period.balance, interest), growth)), INTEREST_SCALE, 'half-even');
+  }, ZERO);
+};
+
+const accrue = (policy: LateFeePolicy, periods: BalancePeriod[]) => {
+  if (policy.method === 'flat') return toDecimal(policy.flatFee);
+  const rate = policy.maxAnnualRate === null ? policy.annualRate : Math.min(policy.annualRate, policy.maxAnnualRate);
+  const interest = policy.method === 'compound' ? compoundInterest(periods, rate) : simpleInterest(periods, rate);
+  // Compounding can push the effective rate over the legal maximum, so cap the result too
+  return policy.maxAnnualRate === null ? interest : smaller(interest, simpleInterest(periods, policy.maxAnnualRate));
+};
+
+// The charges on an invoice as of a date, or null when it is not overdue then. Charges only
+// accrue up to today, so a later date counts as today.
+export const calculateLateCharge = (invoice: InvoiceData, policy: LateFeePolicy, date = todayISO()): LateCharge | null => {
+  const asOf = date < todayISO() ? date : todayISO();
+  if (!policy.enabled || invoice.documentType !== 'invoice' || !invoice.dueDate) return null;
+  if (getEffectiveStatus(invoice, asOf) !== 'overdue') return null;
+  const daysLate = daysBetween(invoice.dueDate, asOf);
+  if (daysLate <= policy.graceDays) return null;
+
+  const periods = getBalancePeriods(invoice, asOf);
+  const toMoney = (value: Decimal) => roundMoney(value, invoice.currency, invoice.rounding.mode);
+  const principal = toMoney(periods[periods.length - 1].balance);
+  const accrued = toMoney(accrue(policy, periods));
+  const billed = toMoney(sum(invoice.lateCharges.map(entry => toDecimal(entry.amount))));
+  return {
+    asOf,
+    daysLate,
+    principal: toNumber(principal),
+    accrued: toNumber(accrued),
+    billed: toNumber(billed),
+    charge: toNumber(atLeastZero(subtract(accrued, billed)))
+  };
+};
+
+// Interest lines name the period they cover: from the due date, or from the last time
+// charges were billed
+export const describeLateCharge = (
+  invoice: Pick<InvoiceData, 'invoiceNumber' | 'dueDate' | 'lateCharges'>,
+  policy: LateFeePolicy,
+  charge: LateCharge
+) => {
+  if (policy.method === 'flat') return `Late payment fee for invoice ${invoice.invoiceNumber}`;
+  const lastBilled = invoice.lateCharges[invoice.lateCharges.length - 1];
+  const from = lastBilled ? addDays(lastBilled.asOf, 1) : invoice.dueDate;
+  return `Late payment interest on invoice ${invoice.invoiceNumber}, ${from} to ${charge.asOf}`;
+};
+
+// Late charges are not a supply of goods or services, so the line carries no tax
+export const createLateChargeItem = (invoice: InvoiceData, policy: LateFeePolicy, charge: LateCharge): InvoiceItem => ({
+  ...createEmptyItem(),
+  description: describeLateCharge(invoice, policy, charge),
+  rate: charge.charge,
+  amount: charge.charge,
+  taxIds: []
+});
+
+// A separate invoice for the charges, linked to the overdue one
+export const createLateChargeInvoice = (
+  original: InvoiceData & { id: string },
+  policy: LateFeePolicy,
+  charge: LateCharge
+): InvoiceData => ({
+  ...structuredClone(original),
+  reference: { id: original.id, number: original.invoiceNumber, type: original.documentType },
+  convertedTo: undefined,
+  invoiceNumber: '',
+  finalizedAt: undefined,
+  sender: undefined,
+  invoiceDate: todayISO(),
+  dueDate: '',
+  paymentTerms: null,
+  items: [createLateChargeItem(original, policy, charge)],
+  sections: [],
+  notes: '',
+  adjustments: [],
+  recurringProfileId: undefined,
+  status: 'draft',
+  statusHistory: [],
+  contacts: [],
+  payments: [],
+  credits: [],
+  lateCharges: []
+});
@@ -0,0 +1,138 @@
+import { getCurrencyDigits } from '@/lib/currency';
+
+// Exact decimal arithmetic for money. Values are held as an integer number of units at a
+// given scale (12.345 is { units: 12345n, scale: 3 }), so sums and products never drift the
+// way binary floats do. Rounding only happens where a RoundingMode is passed in.
+
+export interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+export type RoundingMode = 'half-up' | 'half-even' | 'up' | 'down';
+
+export type RoundingStrategy = 'per-line' | 'per-total';
+
+export interface RoundingSettings {
+  mode: RoundingMode;
+  strategy: RoundingStrategy; // round each line and tax line, or only the totals
+  cashIncrement: number; // smallest payable amount in major units, e.g. 0.05 for CHF; 0 disables
+}
+
+export const ROUNDING_MODES: { value: RoundingMode; label: string }[] = [
+  { value: 'half-up', label: 'Half up' },
+  { value: 'half-even', label: "Half even (banker's)" },
+  { value: 'up', label: 'Up (away from zero)' },
+  { value: 'down', label: 'Down (toward zero)' }
+];
+
+export const DEFAULT_ROUNDING: RoundingSettings = {
+  mode: 'half-up',
+  strategy: 'per-line',
+  cashIncrement: 0
+};
+
+// Intermediate results such as tax-inclusive net amounts are kept at this many places
+const WORKING_SCALE = 10;
+
+const pow10 = (exponent: number) => BigInt(10) ** BigInt(exponent);
+
+export const ZERO: Decimal = { units: BigInt(0), scale: 0 };
+
+// Numbers are read through toFixed so float noise such as 0.30000000000000004 is dropped.
+// toFixed writes 1e21 and above in exponent notation, but those are always whole numbers.
+export const toDecimal = (value: number | string): Decimal => {
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  if (!Number.isFinite(number)) return ZERO;
+  if (Math.abs(number) >= 1e21) return { units: BigInt(number), scale: 0 };
+  const [whole, fraction = ''] = number.toFixed(WORKING_SCALE).split('.');
+  const trimmed = fraction.replace(/0+$/, '');
+  return { units: BigInt(whole + trimmed), scale: trimmed.length };
+};
+
+export const toNumber = (value: Decimal) => {
+  const negative = value.units < BigInt(0);
+  const digits = (negative ? -value.units : value.units).toString().padStart(value.scale + 1, '0');
+  const whole = digits.slice(0, digits.length - value.scale);
+  const fraction = digits.slice(digits.length - value.scale);
+  return Number(`${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`);
+};
+
+const rescale = (value: Decimal, scale: number): Decimal =>
+  ({ units: value.units * pow10(scale - value.scale), scale });
+
+export const add = (a: Decimal, b: Decimal): Decimal => {
+  const scale = Math.max(a.scale, b.scale);
+  return { units: rescale(a, scale).units + rescale(b, scale).units, scale };
+};
+
+export const subtract = (a: Decimal, b: Decimal): Decimal =>
+  add(a, { units: -b.units, scale: b.scale });
+
+export const multiply = (a: Decimal, b: Decimal): Decimal =>
+  ({ units: a.units * b.units, scale: a.scale + b.scale });
+
+export const sum = (values: Decimal[]) => values.reduce(add, ZERO);
+
+export const compare = (a: Decimal, b: Decimal) => {
+  const difference = subtract(a, b).units;
+  return difference === BigInt(0) ? 0 : difference > BigInt(0) ? 1 : -1;
+};
+
+// Integer division of numerator by denominator, rounded with the given mode
+const divideUnits = (numerator: bigint, denominator: bigint, mode: RoundingMode): bigint => {
+  const zero = BigInt(0);
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === zero) return quotient;
+
+  const step = (numerator < zero) !== (denominator < zero) ? BigInt(-1) : BigInt(1);
+  const twiceRemainder = (remainder < zero ? -remainder : remainder) * BigInt(2);
+  const absDenominator = denominator < zero ? -denominator : denominator;
+
+  switch (mode) {
+    case 'down':
+      return quotient;
+    case 'up':
+      return quotient + step;
+    case 'half-even':
+      if (twiceRemainder === absDenominator) {
+        return quotient % BigInt(2) === zero ? quotient : quotient + step;
+      }
+      return twiceRemainder > absDenominator ? quotient + step : quotient;
+    case 'half-up':
+    default:
+      return twiceRemainder >= absDenominator ? quotient + step : quotient;
+  }
+};
+
+export const round = (value: Decimal, scale: number, mode: RoundingMode): Decimal => {
+  if (value.scale <= scale) return rescale(value, scale);
+  return { units: divideUnits(value.units, pow10(value.scale - scale), mode), scale };
+};
+
+export const divide = (a: Decimal, b: Decimal, mode: RoundingMode = 'half-even', scale = WORKING_SCALE): Decimal => {
+  // a / b at `scale` places: (a.units * 10^(scale + b.scale - a.scale)) / b.units
+  const shift = scale + b.scale - a.scale;
+  const numerator = shift >= 0 ? a.units * pow10(shift) : a.units;
+  const denominator = shift >= 0 ? b.units : b.units * pow10(-shift);
+  return { units: divideUnits(numerator, denominator, mode), scale };
+};
+
+// Dividing by 100 is exact: it only moves the decimal point
+export const percentOf = (value: Decimal, percent: number): Decimal => {
+  const product = multiply(value, toDecimal(percent));
+  return { units: product.units, scale: product.scale + 2 };
+};
+
+// Round to the currency's minor unit, e.g. cents for USD, whole yen for JPY
+export const roundMoney = (value: Decimal, currency: string, mode: RoundingMode): Decimal =>
+  round(value, getCurrencyDigits(currency), mode);
+
+// Round to a cash increment such as 0.05, keeping the currency's minor-unit scale
+export const roundToIncrement = (value: Decimal, increment: number, currency: string, mode: RoundingMode): Decimal => {
+  const step = toDecimal(increment);
+  if (step.units <= BigInt(0)) return value;
+  const steps = round(divide(value, step, 'half-even'), 0, mode);
+  return roundMoney(multiply(steps, step), currency, mode);
+};
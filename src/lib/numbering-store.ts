@@ -0,0 +1,122 @@
+import { getAll, openDatabase, putOne, deleteOne } from '@/lib/db';
+import {
+  DEFAULT_SERIES_LIST,
+  formatNumber,
+  getCounterKey,
+  type IssuedNumber,
+  type NumberContext,
+  type NumberingSeries
+} from '@/lib/numbering';
+
+// Built-in series are created the first time they are missing
+export const listSeries = async (): Promise<NumberingSeries[]> => {
+  const series = await getAll<NumberingSeries>('numberingSeries');
+  const missing = DEFAULT_SERIES_LIST.filter(defaults => !series.some(existing => existing.id === defaults.id));
+  const seeded = await Promise.all(missing.map(defaults => putOne('numberingSeries', defaults)));
+  return [...series, ...seeded].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Saves the settings of a series. Its counters are re-read in the same transaction, since
+// invoices may have been finalized since the series was loaded; only the counters given
+// as next sequences move, and never back. A counter set before its first number is issued
+// starts there, so the audit does not count the sequences before it as gaps.
+export const saveSeries = async (series: NumberingSeries, nextSequences: Record<string, number>): Promise<NumberingSeries> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('numberingSeries', 'readwrite');
+    const seriesStore = transaction.objectStore('numberingSeries');
+    let saved: NumberingSeries;
+
+    const request = seriesStore.get(series.id);
+    request.onsuccess = () => {
+      const stored: NumberingSeries | undefined = request.result;
+      const counters = { ...stored?.counters };
+      const starts = { ...stored?.starts };
+      Object.entries(nextSequences).forEach(([counterKey, next]) => {
+        if (!counters[counterKey]) starts[counterKey] = next;
+        counters[counterKey] = Math.max(counters[counterKey] || 0, next - 1);
+      });
+      saved = { id: series.id, name: series.name, pattern: series.pattern, resetYearly: series.resetYearly, counters, starts };
+      seriesStore.put(saved);
+    };
+
+    transaction.oncomplete = () => resolve(saved);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const deleteSeries = (id: string) => deleteOne('numberingSeries', id);
+
+export const listIssuedNumbers = () => getAll<IssuedNumber>('issuedNumbers');
+
+// Records a number issued in another browser, for an imported invoice. add() rejects a
+// number this browser has already issued.
+export const recordImportedNumber = async (number: string, seriesId: string, invoiceId: string): Promise<IssuedNumber> => {
+  const issued: IssuedNumber = {
+    id: number,
+    seriesId,
+    counterKey: 'imported',
+    sequence: 0,
+    invoiceId,
+    issuedAt: new Date().toISOString(),
+    imported: true
+  };
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction('issuedNumbers', 'readwrite').objectStore('issuedNumbers').add(issued);
+    request.onsuccess = () => resolve(issued);
+    request.onerror = () => reject(request.error?.name === 'ConstraintError'
+      ? new Error(`Invoice number ${number} has already been issued`)
+      : request.error);
+  });
+};
+
+// Takes the next sequence and records the issued number in one transaction, so two tabs
+// finalizing at the same moment can never receive the same number. Sequences whose number
+// was already issued elsewhere, such as by an imported invoice, are passed over.
+export const reserveNumber = async (seriesId: string, invoiceId: string, context: NumberContext): Promise<IssuedNumber> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['numberingSeries', 'issuedNumbers'], 'readwrite');
+    const seriesStore = transaction.objectStore('numberingSeries');
+    const issuedStore = transaction.objectStore('issuedNumbers');
+    let issued: IssuedNumber | null = null;
+
+    const request = seriesStore.get(seriesId);
+    request.onsuccess = () => {
+      const series: NumberingSeries | undefined = request.result;
+      if (!series) {
+        transaction.abort();
+        return;
+      }
+      const counterKey = getCounterKey(series, context);
+      const tryNext = (sequence: number) => {
+        const id = formatNumber(series.pattern, sequence, context);
+        const existing = issuedStore.getKey(id);
+        existing.onsuccess = () => {
+          // A pattern without {SEQ} formats every sequence the same; add() then reports it
+          if (existing.result !== undefined && series.pattern.includes('{SEQ')) {
+            tryNext(sequence + 1);
+            return;
+          }
+          issued = { id, seriesId, counterKey, sequence, invoiceId, issuedAt: new Date().toISOString() };
+          seriesStore.put({ ...series, counters: { ...series.counters, [counterKey]: sequence } });
+          // add() rather than put(): an already issued number aborts the whole transaction
+          issuedStore.add(issued);
+        };
+      };
+      tryNext((series.counters[counterKey] || 0) + 1);
+    };
+
+    transaction.oncomplete = () => resolve(issued!);
+    transaction.onabort = () => {
+      if (!issued) {
+        reject(new Error(`Numbering series ${seriesId} not found`));
+      } else if (transaction.error?.name === 'ConstraintError') {
+        reject(new Error(`Invoice number ${issued.id} has already been issued`));
+      } else {
+        reject(transaction.error);
+      }
+    };
+  });
+};
@@ -0,0 +1,160 @@
+import type { InvoiceData } from '@/lib/invoice';
+
+// Numbering series turn a pattern such as `INV-{YYYY}-{SEQ:4}` into invoice numbers.
+//
+// Supported tokens: {YYYY} {YY} {MM} {DD} from the invoice date, {SEQ} or {SEQ:n} for the
+// sequence zero-padded to n digits, and {CLIENT} for the client's number prefix.
+
+export interface NumberingSeries {
+  id: string;
+  name: string;
+  pattern: string;
+  resetYearly: boolean;
+  counters: Record<string, number>; // last sequence issued, per counter key
+  starts?: Record<string, number>; // first sequence, per counter key, where it was set to continue another series
+}
+
+// Every number handed out is recorded so auditors can check for gaps and duplicates
+export interface IssuedNumber {
+  id: string; // the formatted number itself, so the store rejects duplicates
+  seriesId: string;
+  counterKey: string;
+  sequence: number;
+  invoiceId: string;
+  issuedAt: string;
+  imported?: boolean; // issued in another browser; outside this browser's sequences
+}
+
+export interface NumberContext {
+  date: string; // YYYY-MM-DD
+  clientPrefix: string;
+}
+
+export interface NumberingAudit {
+  gaps: { seriesId: string; counterKey: string; missing: number[] }[];
+  duplicates: { number: string; invoiceIds: string[] }[];
+  orphaned: IssuedNumber[]; // issued numbers whose invoice no longer exists
+}
+
+export const DEFAULT_SERIES: NumberingSeries = {
+  id: 'invoices',
+  name: 'Invoices',
+  pattern: 'INV-{YYYY}-{SEQ:4}',
+  resetYearly: true,
+  counters: {}
+};
+
+// Credit notes must not share a sequence with invoices
+export const DEFAULT_CREDIT_NOTE_SERIES: NumberingSeries = {
+  id: 'credit-notes',
+  name: 'Credit Notes',
+  pattern: 'CN-{YYYY}-{SEQ:4}',
+  resetYearly: true,
+  counters: {}
+};
+
+export const DEFAULT_QUOTE_SERIES: NumberingSeries = {
+  id: 'quotes',
+  name: 'Quotes',
+  pattern: 'Q-{YYYY}-{SEQ:4}',
+  resetYearly: true,
+  counters: {}
+};
+
+export const DEFAULT_SERIES_LIST = [DEFAULT_SERIES, DEFAULT_CREDIT_NOTE_SERIES, DEFAULT_QUOTE_SERIES];
+
+export const getClientPrefix = (client: { numberPrefix?: string; company?: string; name: string }) =>
+  (client.numberPrefix || (client.company || client.name).replace(/[^a-z0-9]/gi, '').slice(0, 3) || 'GEN').toUpperCase();
+
+// Sequences restart each year when resetYearly is set, and run per client when the pattern uses {CLIENT}
+export const getCounterKey = (series: NumberingSeries, context: NumberContext) => {
+  const parts = [series.resetYearly ? context.date.slice(0, 4) : 'all'];
+  if (series.pattern.includes('{CLIENT}')) parts.push(context.clientPrefix);
+  return parts.join(':');
+};
+
+export const formatNumber = (pattern: string, sequence: number, context: NumberContext) => {
+  const [year, month, day] = context.date.split('-');
+  return pattern.replace(/\{(YYYY|YY|MM|DD|CLIENT|SEQ)(?::(\d+))?\}/g, (_match, token: string, width?: string) => {
+    switch (token) {
+      case 'YYYY': return year;
+      case 'YY': return year.slice(2);
+      case 'MM': return month;
+      case 'DD': return day;
+      case 'CLIENT': return context.clientPrefix;
+      default: return sequence.toString().padStart(width ? parseInt(width) : 1, '0');
+    }
+  });
+};
+
+// An issued number is formed from the invoice date and the client's prefix, so a finalized
+// invoice keeps the fields they come from
+export const keepNumberedFields = (prev: InvoiceData, next: InvoiceData): InvoiceData => prev.finalizedAt ? {
+  ...next,
+  invoiceDate: prev.invoiceDate,
+  clientInfo: {
+    ...next.clientInfo,
+    name: prev.clientInfo.name,
+    company: prev.clientInfo.company,
+    numberPrefix: prev.clientInfo.numberPrefix
+  }
+} : next;
+
+// The issued number a series would repeat, or fall back behind, if its counter for
+// `context` continued at `next`. Turning on a yearly reset starts a new counter at 1, which
+// this catches as well as a next sequence typed too low.
+export const findIssuedConflict = (
+  series: NumberingSeries,
+  next: number,
+  context: NumberContext,
+  issued: IssuedNumber[]
+) => {
+  const counterKey = getCounterKey(series, context);
+  const number = formatNumber(series.pattern, next, context);
+  return issued.find(entry => entry.id === number ||
+    (!entry.imported && entry.seriesId === series.id && entry.counterKey === counterKey && entry.sequence >= next));
+};
+
+// Client prefixes that already have their own counter in a per-client series
+export const getCounterPrefixes = (series: NumberingSeries) =>
+  [...new Set(Object.keys(series.counters).map(key => key.split(':')[1]).filter(Boolean))];
+
+export const previewNextNumber = (series: NumberingSeries, context: NumberContext) =>
+  formatNumber(series.pattern, (series.counters[getCounterKey(series, context)] || 0) + 1, context);
+
+export const auditNumbers = (
+  issued: IssuedNumber[],
+  invoices: { id: string; invoiceNumber: string }[],
+  seriesList: NumberingSeries[]
+): NumberingAudit => {
+  const sequences = new Map<string, { seriesId: string; counterKey: string; values: number[] }>();
+  issued.filter(entry => !entry.imported).forEach(entry => {
+    const key = `${entry.seriesId}|${entry.counterKey}`;
+    const group = sequences.get(key) || { seriesId: entry.seriesId, counterKey: entry.counterKey, values: [] };
+    group.values.push(entry.sequence);
+    sequences.set(key, group);
+  });
+
+  const gaps = Array.from(sequences.values()).map(({ seriesId, counterKey, values }) => {
+    const used = new Set(values);
+    const missing: number[] = [];
+    const start = seriesList.find(series => series.id === seriesId)?.starts?.[counterKey] ?? 1;
+    for (let sequence = start; sequence < Math.max(...values); sequence++) {
+      if (!used.has(sequence)) missing.push(sequence);
+    }
+    return { seriesId, counterKey, missing };
+  }).filter(gap => gap.missing.length > 0);
+
+  const byNumber = new Map<string, string[]>();
+  invoices.filter(invoice => invoice.invoiceNumber).forEach(invoice => {
+    byNumber.set(invoice.invoiceNumber, [...(byNumber.get(invoice.invoiceNumber) || []), invoice.id]);
+  });
+  const duplicates = Array.from(byNumber.entries())
+    .filter(([, invoiceIds]) => invoiceIds.length > 1)
+    .map(([number, invoiceIds]) => ({ number, invoiceIds }));
+
+  const invoiceIds = new Set(invoices.map(invoice => invoice.id));
+  const orphaned = issued.filter(entry => !invoiceIds.has(entry.invoiceId));
+
+  return { gaps, duplicates, orphaned };
+};
@@ -0,0 +1,74 @@
+import { addDays, endOfMonth } from '@/lib/dates';
+import type { InvoiceData } from '@/lib/invoice';
+import { percentOf, roundMoney, subtract, toDecimal, toNumber } from '@/lib/money';
+import { calculateTotals } from '@/lib/pricing';
+
+// Payment terms derive the due date from the invoice date. "Net" terms count from the
+// invoice date, end-of-month terms from the last day of the invoice's month, and an
+// optional early-payment discount (e.g. 2/10 Net 30) rewards paying within a shorter window.
+
+export type TermsBasis = 'invoice-date' | 'end-of-month';
+
+export interface EarlyPaymentDiscount {
+  percent: number;
+  days: number; // counted from the invoice date
+}
+
+export interface PaymentTerms {
+  id: string; // the preset the terms started from
+  basis: TermsBasis;
+  days: number;
+  discount?: EarlyPaymentDiscount;
+}
+
+export const PAYMENT_TERMS: PaymentTerms[] = [
+  { id: 'due-on-receipt', basis: 'invoice-date', days: 0 },
+  { id: 'net-15', basis: 'invoice-date', days: 15 },
+  { id: 'net-30', basis: 'invoice-date', days: 30 },
+  { id: 'net-60', basis: 'invoice-date', days: 60 },
+  { id: 'end-of-month', basis: 'end-of-month', days: 15 },
+  { id: '2-10-net-30', basis: 'invoice-date', days: 30, discount: { percent: 2, days: 10 } }
+];
+
+export const getDueDate = (terms: PaymentTerms, invoiceDate: string) =>
+  addDays(terms.basis === 'end-of-month' ? endOfMonth(invoiceDate) : invoiceDate, terms.days);
+
+// The short name used in pickers and on the document, e.g. "Net 30" or "2/10 Net 30"
+export const getTermsName = (terms: PaymentTerms) => {
+  const base = terms.basis === 'end-of-month'
+    ? terms.days > 0 ? `EOM + ${terms.days}` : 'End of month'
+    : terms.days > 0 ? `Net ${terms.days}` : 'Due on receipt';
+  return terms.discount ? `${terms.discount.percent}/${terms.discount.days} ${base}` : base;
+};
+
+export const getTermsDescription = (terms: PaymentTerms) => {
+  if (terms.basis === 'end-of-month') {
+    return terms.days > 0
+      ? `Payment is due ${terms.days} days after the end of the month of the invoice date.`
+      : 'Payment is due by the end of the month of the invoice date.';
+  }
+  return terms.days > 0
+    ? `Payment is due within ${terms.days} days of the invoice date.`
+    : 'Payment is due on receipt.';
+};
+
+export interface EarlyPaymentOffer {
+  percent: number;
+  payBy: string;
+  discount: number;
+  amount: number; // what the client pays when taking the discount
+}
+
+// The discount is taken off the invoice total and rounded like the total itself
+export const getEarlyPaymentOffer = (invoice: InvoiceData): EarlyPaymentOffer | null => {
+  const discount = invoice.paymentTerms?.discount;
+  if (!discount || discount.percent <= 0) return null;
+  const total = toDecimal(calculateTotals(invoice).total);
+  const amount = roundMoney(percentOf(total, discount.percent), invoice.currency, invoice.rounding.mode);
+  return {
+    percent: discount.percent,
+    payBy: addDays(invoice.invoiceDate, discount.days),
+    discount: toNumber(amount),
+    amount: toNumber(subtract(total, amount))
+  };
+};
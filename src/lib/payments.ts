@@ -0,0 +1,66 @@
+import { compare, subtract, sum, toDecimal, toNumber, ZERO } from '@/lib/money';
+import { calculateTotals } from '@/lib/pricing';
+import { transitionStatus, type TargetStatus } from '@/lib/status';
+import type { AppliedCredit, InvoiceData } from '@/lib/invoice';
+
+export type PaymentMethod = 'bank-transfer' | 'card' | 'cash' | 'check' | 'other';
+
+export interface Payment {
+  id: string;
+  date: string;
+  method: PaymentMethod;
+  reference: string;
+  amount: number; // positive for money received, negative for a refund to the client
+}
+
+export interface PaymentSummary {
+  total: number;
+  paid: number; // net of refunds
+  credited: number; // issued credit notes
+  balance: number; // still owed, never negative
+  overpaid: number; // received beyond the total, owed back to the client or kept as credit
+}
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'bank-transfer', label: 'Bank transfer' },
+  { value: 'card', label: 'Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'check', label: 'Check' },
+  { value: 'other', label: 'Other' }
+];
+
+export const getPaymentSummary = (invoice: InvoiceData): PaymentSummary => {
+  const total = toDecimal(calculateTotals(invoice).total);
+  const paid = sum(invoice.payments.map(payment => toDecimal(payment.amount)));
+  const credited = sum(invoice.credits.map(credit => toDecimal(credit.amount)));
+  const difference = subtract(subtract(total, paid), credited);
+  const owing = compare(difference, ZERO) > 0;
+  return {
+    total: toNumber(total),
+    paid: toNumber(paid),
+    credited: toNumber(credited),
+    balance: owing ? toNumber(difference) : 0,
+    overpaid: owing ? 0 : toNumber(subtract(ZERO, difference))
+  };
+};
+
+// Payments are only taken against an invoice that has been sent
+export const canRecordPayments = (invoice: Pick<InvoiceData, 'status' | 'documentType'>) =>
+  invoice.documentType === 'invoice' &&
+  (invoice.status === 'sent' || invoice.status === 'partially-paid' || invoice.status === 'paid');
+
+const statusForSettlement = ({ balance, paid, credited }: PaymentSummary): TargetStatus =>
+  paid === 0 && credited === 0 ? 'sent' : balance === 0 ? 'paid' : 'partially-paid';
+
+// Moves a sent invoice to paid or partially paid (and back, when a payment is removed)
+const settle = (invoice: InvoiceData, changes: Pick<InvoiceData, 'payments'> | Pick<InvoiceData, 'credits'>) => {
+  if (!canRecordPayments(invoice)) return changes;
+  const status = statusForSettlement(getPaymentSummary({ ...invoice, ...changes }));
+  return status === invoice.status ? changes : { ...changes, ...transitionStatus(invoice, status) };
+};
+
+export const applyPayments = (invoice: InvoiceData, payments: Payment[]): Partial<InvoiceData> =>
+  settle(invoice, { payments });
+
+export const applyCredits = (invoice: InvoiceData, credits: AppliedCredit[]): Partial<InvoiceData> =>
+  settle(invoice, { credits });
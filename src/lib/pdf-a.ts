@@ -0,0 +1,175 @@
+import jsPDF from 'jspdf';
+import { escapeXml } from '@/lib/xml';
+
+// Turns a rendered jsPDF document into a PDF/A-3b file with embedded attachments. jsPDF has
+// no API for this, so it hooks into the document build the way jsPDF's own xmp_metadata
+// plugin does: extra objects are written after the resources and linked from the catalog.
+// One gap remains: jsPDF's standard fonts are referenced, not embedded, which PDF/A
+// forbids. The structure, metadata and colour profile conform; strict validators such as
+// veraPDF will still report the fonts.
+
+export interface PdfAttachment {
+  fileName: string;
+  description: string;
+  mimeType: string;
+  relationship: 'Data' | 'Alternative' | 'Source' | 'Supplement';
+  content: string; // written as UTF-8
+}
+
+export interface PdfAOptions {
+  title: string;
+  author: string;
+  attachments: PdfAttachment[];
+  xmpExtension?: string; // further rdf:Description elements, e.g. for Factur-X
+}
+
+// The parts of jsPDF's internal API used here; they are missing from its typings
+interface PdfInternals {
+  events: { subscribe: (topic: string, handler: () => void) => string };
+  newObject: () => number;
+  write: (line: string) => void;
+}
+
+const toBinaryString = (bytes: ArrayLike<number>) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+const utf8 = (text: string) => toBinaryString(new TextEncoder().encode(text));
+
+const pdfString = (text: string) => `(${text.replace(/[\\()]/g, '\\$&')})`;
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+// jsPDF writes local time with the zone offset; the metadata must state the same instant
+const formatDates = (date: Date) => {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const zone = [pad2(Math.floor(Math.abs(offset) / 60)), pad2(Math.abs(offset) % 60)];
+  const day = [date.getFullYear(), pad2(date.getMonth() + 1), pad2(date.getDate())];
+  const time = [pad2(date.getHours()), pad2(date.getMinutes()), pad2(date.getSeconds())];
+  return {
+    pdf: `D:${day.join('')}${time.join('')}${sign}${zone[0]}'${zone[1]}'`,
+    xmp: `${day.join('-')}T${time.join(':')}${sign}${zone.join(':')}`
+  };
+};
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const u16 = (value: number) => [(value >>> 8) & 255, value & 255];
+const u32 = (value: number) => [(value >>> 24) & 255, (value >>> 16) & 255, (value >>> 8) & 255, value & 255];
+const s15Fixed16 = (value: number) => u32(Math.round(value * 65536) >>> 0);
+const xyzTag = (x: number, y: number, z: number) => [...ascii('XYZ '), ...u32(0), ...s15Fixed16(x), ...s15Fixed16(y), ...s15Fixed16(z)];
+
+// PDF/A needs an output intent with an ICC profile. This builds a minimal ICC v2 display
+// profile with the sRGB primaries (adapted to D50) and a 2.2 gamma, rather than shipping the
+// binary sRGB profile as an asset.
+const buildRgbProfile = () => {
+  const description = 'sRGB primaries, gamma 2.2';
+  const gamma = [...ascii('curv'), ...u32(0), ...u32(1), ...u16(Math.round(2.2 * 256))];
+  const tags: [string, number[]][] = [
+    ['desc', [...ascii('desc'), ...u32(0), ...u32(description.length + 1), ...ascii(description), 0,
+      ...u32(0), ...u32(0), ...u16(0), 0, ...new Array(67).fill(0)]],
+    ['cprt', [...ascii('text'), ...u32(0), ...ascii('No copyright, use freely'), 0]],
+    ['wtpt', xyzTag(0.9642, 1, 0.8249)],
+    ['rXYZ', xyzTag(0.4361, 0.2225, 0.0139)],
+    ['gXYZ', xyzTag(0.3851, 0.7169, 0.0971)],
+    ['bXYZ', xyzTag(0.1431, 0.0606, 0.7141)],
+    ['rTRC', gamma],
+    ['gTRC', gamma],
+    ['bTRC', gamma]
+  ];
+  const table: number[] = [...u32(tags.length)];
+  const data: number[] = [];
+  let offset = 128 + 4 + tags.length * 12;
+  tags.forEach(([signature, bytes]) => {
+    const padded = [...bytes, ...new Array((4 - bytes.length % 4) % 4).fill(0)];
+    table.push(...ascii(signature), ...u32(offset), ...u32(bytes.length));
+    data.push(...padded);
+    offset += padded.length;
+  });
+  const header = [
+    ...u32(offset), ...u32(0), ...u32(0x02100000), ...ascii('mntrRGB XYZ '),
+    ...u16(2000), ...u16(1), ...u16(1), ...u16(0), ...u16(0), ...u16(0),
+    ...ascii('acsp'), ...new Array(28).fill(0), ...xyzTag(0.9642, 1, 0.8249).slice(8)
+  ];
+  return toBinaryString([...header, ...new Array(128 - header.length).fill(0), ...table, ...data]);
+};
+
+const buildXmp = (options: PdfAOptions, createDate: string) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <pdfaid:part>3</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(options.title)}</rdf:li></rdf:Alt></dc:title>${options.author ? `
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(options.author)}</rdf:li></rdf:Seq></dc:creator>` : ''}
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+      <pdf:Producer>${escapeXml(`jsPDF ${jsPDF.version}`)}</pdf:Producer>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      <xmp:CreateDate>${createDate}</xmp:CreateDate>
+    </rdf:Description>${options.xmpExtension ?? ''}
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+export const convertToPdfA3 = (doc: jsPDF, options: PdfAOptions) => {
+  const internals = doc.internal as unknown as PdfInternals;
+  const created = new Date();
+  const dates = formatDates(created);
+  doc.setCreationDate(created);
+  doc.setProperties({ title: options.title, author: options.author });
+
+  const writeStream = (dictionary: string, data: string) => {
+    const id = internals.newObject();
+    internals.write(`<< ${dictionary} /Length ${data.length} >>`);
+    internals.write('stream');
+    internals.write(data);
+    internals.write('endstream');
+    internals.write('endobj');
+    return id;
+  };
+  const writeObject = (dictionary: string) => {
+    const id = internals.newObject();
+    internals.write(dictionary);
+    internals.write('endobj');
+    return id;
+  };
+
+  // Object numbers are assigned anew each time jsPDF builds the file
+  let metadataId = 0;
+  let outputIntentId = 0;
+  let fileSpecs: { name: string; id: number }[] = [];
+
+  internals.events.subscribe('postPutResources', () => {
+    metadataId = writeStream('/Type /Metadata /Subtype /XML', utf8(buildXmp(options, dates.xmp)));
+    const profileId = writeStream('/N 3', buildRgbProfile());
+    outputIntentId = writeObject(
+      `<< /Type /OutputIntent /S /GTS_PDFA1 /OutputConditionIdentifier (sRGB) /DestOutputProfile ${profileId} 0 R >>`
+    );
+    fileSpecs = options.attachments.map(attachment => {
+      const content = utf8(attachment.content);
+      const streamId = writeStream(
+        `/Type /EmbeddedFile /Subtype /${attachment.mimeType.replace('/', '#2F')} /Params << /ModDate (${dates.pdf}) /Size ${content.length} >>`,
+        content
+      );
+      const name = pdfString(attachment.fileName);
+      const id = writeObject(
+        `<< /Type /Filespec /F ${name} /UF ${name} /Desc ${pdfString(attachment.description)} ` +
+        `/AFRelationship /${attachment.relationship} /EF << /F ${streamId} 0 R /UF ${streamId} 0 R >> >>`
+      );
+      return { name, id };
+    });
+  });
+
+  internals.events.subscribe('putCatalog', () => {
+    internals.write(`/Metadata ${metadataId} 0 R`);
+    internals.write(`/OutputIntents [${outputIntentId} 0 R]`);
+    if (fileSpecs.length === 0) return;
+    internals.write(`/Names << /EmbeddedFiles << /Names [${fileSpecs.map(spec => `${spec.name} ${spec.id} 0 R`).join(' ')}] >> >>`);
+    internals.write(`/AF [${fileSpecs.map(spec => `${spec.id} 0 R`).join(' ')}]`);
+  });
+
+  return doc;
+};
@@ -0,0 +1,375 @@
+import jsPDF from 'jspdf';
+import { formatDocumentMoney } from '@/lib/currency';
+import { add, toDecimal, toNumber, ZERO } from '@/lib/money';
+import type { DocumentAlign, DocumentRow, DocumentTable, InvoiceDocument } from '@/lib/invoice-document';
+
+// A4 in millimetres. Content stops above the footer band that holds the document's footer
+// lines and "Page X of Y".
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const PAGE_NUMBER_BAND = 10;
+const FOOTER_LINE_HEIGHT = 4;
+const FOOTER_SIZE = 8;
+const LOGO_MAX_WIDTH = 50;
+const LOGO_MAX_HEIGHT = 18;
+const LINE_HEIGHT = 5;
+const CELL_PADDING = 1.5;
+const BODY_SIZE = 10;
+const HEADING_SIZE = 12;
+const TOTALS_WIDTH = 70;
+
+interface Layout {
+  doc: jsPDF;
+  y: number;
+  contentBottom: number;
+  footerLines: string[];
+  document: InvoiceDocument;
+  headingFont: string;
+  bodyFont: string;
+}
+
+// jsPDF only ships the standard PDF fonts, so theme fonts map to the closest family
+const getPdfFont = (family: string) => {
+  if (/mono|code|courier/i.test(family)) return 'courier';
+  if (/serif|display|times|georgia|garamond|merriweather|lora/i.test(family) && !/sans/i.test(family)) return 'times';
+  return 'helvetica';
+};
+
+const setBody = (layout: Layout, style: 'normal' | 'bold' = 'normal') => {
+  layout.doc.setFont(layout.bodyFont, style);
+  layout.doc.setFontSize(BODY_SIZE);
+  layout.doc.setTextColor(layout.document.theme.secondary);
+};
+
+const setHeading = (layout: Layout, size = HEADING_SIZE) => {
+  layout.doc.setFont(layout.headingFont, 'bold');
+  layout.doc.setFontSize(size);
+  layout.doc.setTextColor(layout.document.theme.primary);
+};
+
+const textX = (x: number, width: number, align: DocumentAlign) =>
+  align === 'right' ? x + width - CELL_PADDING : align === 'center' ? x + width / 2 : x + CELL_PADDING;
+
+const newPage = (layout: Layout) => {
+  layout.doc.addPage();
+  layout.y = MARGIN;
+};
+
+// Start a new page when the next block would run into the footer
+const ensureSpace = (layout: Layout, height: number) => {
+  if (layout.y + height > layout.contentBottom) {
+    newPage(layout);
+  }
+};
+
+const splitLines = (doc: jsPDF, text: string, width: number): string[] =>
+  doc.splitTextToSize(text, width);
+
+const measureRow = (doc: jsPDF, cells: string[], widths: number[]) => {
+  const lines = cells.map((cell, index) => splitLines(doc, cell, widths[index] - CELL_PADDING * 2));
+  const height = Math.max(...lines.map(cellLines => cellLines.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+  return { lines, height };
+};
+
+// Draws already wrapped cells, which may be a slice of a row's lines
+const drawLines = (layout: Layout, table: DocumentTable, widths: number[], lines: string[][]) => {
+  let x = MARGIN;
+  table.columns.forEach((column, index) => {
+    if (lines[index].length > 0) {
+      layout.doc.text(lines[index], textX(x, widths[index], column.align), layout.y + CELL_PADDING + LINE_HEIGHT - 1.2, {
+        align: column.align
+      });
+    }
+    x += widths[index];
+  });
+  layout.y += Math.max(...lines.map(cellLines => cellLines.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+};
+
+const drawCells = (layout: Layout, table: DocumentTable, widths: number[], cells: string[], bold = false) => {
+  setBody(layout, bold ? 'bold' : 'normal');
+  drawLines(layout, table, widths, measureRow(layout.doc, cells, widths).lines);
+};
+
+// Section headings span the whole table in the theme's primary colour
+const rowWidths = (row: DocumentRow, widths: number[]) => row.kind === 'heading' ? [CONTENT_WIDTH] : widths;
+
+const drawSectionHeading = (layout: Layout, text: string) => {
+  setBody(layout, 'bold');
+  layout.doc.setTextColor(layout.document.theme.primary);
+  const { lines, height } = measureRow(layout.doc, [text], [CONTENT_WIDTH]);
+  layout.doc.text(lines[0], MARGIN + CELL_PADDING, layout.y + CELL_PADDING + LINE_HEIGHT - 1.2);
+  layout.y += height;
+};
+
+const drawRule = (layout: Layout, color: string) => {
+  layout.doc.setDrawColor(color);
+  layout.doc.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y);
+};
+
+const drawTableHeader = (layout: Layout, table: DocumentTable, widths: number[]) => {
+  drawCells(layout, table, widths, table.columns.map(column => column.header), true);
+  drawRule(layout, layout.document.theme.accent);
+};
+
+const drawCarryRow = (layout: Layout, table: DocumentTable, widths: number[], label: string, amount: number) => {
+  const cells = table.columns.map((_column, index) =>
+    index === 0 ? label : index === table.columns.length - 1 ? formatDocumentMoney(amount, layout.document.currency, layout.document.locale) : '');
+  drawCells(layout, table, widths, cells, true);
+};
+
+// Draws a table that flows over as many pages as needed. Column headers repeat on every
+// page, and carry-forward tables show the running subtotal on both sides of each break.
+// `keepWithLast` reserves room after the final row so the block that follows it (the
+// totals) is never separated from the table. A section heading is kept with the row below it.
+// A row too tall for any page, such as a very long description, breaks between its lines.
+const drawTable = (layout: Layout, table: DocumentTable, keepWithLast = 0) => {
+  const { doc } = layout;
+  const widths = table.columns.map(column => CONTENT_WIDTH * column.width / 100);
+  const carryHeight = table.carryForward ? LINE_HEIGHT + CELL_PADDING * 2 : 0;
+  const lineRowHeight = LINE_HEIGHT + CELL_PADDING * 2;
+  let carried = ZERO;
+
+  setBody(layout, 'bold');
+  const headerHeight = measureRow(doc, table.columns.map(column => column.header), widths).height;
+  // Room for rows on a page of their own, between the header and brought and carried forward
+  const pageRoom = layout.contentBottom - MARGIN - headerHeight - carryHeight * 2;
+
+  const rowHeight = (row: DocumentRow) => {
+    setBody(layout, row.kind === 'item' ? 'normal' : 'bold');
+    return measureRow(doc, row.cells, rowWidths(row, widths)).height;
+  };
+
+  // A row that is split only needs room for its first line
+  const isSplit = (row: DocumentRow) => row.kind !== 'heading' && rowHeight(row) > pageRoom;
+  const startHeight = (row: DocumentRow) => isSplit(row) ? lineRowHeight : rowHeight(row);
+
+  // The room a row needs on its page, including what has to stay with it
+  const neededFor = (index: number) => {
+    const row = table.rows[index];
+    const isLast = index === table.rows.length - 1;
+    const next = table.rows[index + 1];
+    const keepWithNext = row.kind === 'heading' && next ? startHeight(next) : 0;
+    return startHeight(row) + keepWithNext + (isLast && !isSplit(row) ? keepWithLast : carryHeight);
+  };
+
+  const breakPage = () => {
+    if (table.carryForward) drawCarryRow(layout, table, widths, 'Carried forward', toNumber(carried));
+    newPage(layout);
+    drawTableHeader(layout, table, widths);
+    if (table.carryForward) drawCarryRow(layout, table, widths, 'Brought forward', toNumber(carried));
+  };
+
+  // Draws as many lines as fit, then breaks the page and carries on with the rest. The row's
+  // value is carried from its first page, where its amount is shown.
+  const drawSplitRow = (row: DocumentRow) => {
+    setBody(layout, row.kind === 'subtotal' ? 'bold' : 'normal');
+    const { lines } = measureRow(doc, row.cells, widths);
+    const count = Math.max(...lines.map(cellLines => cellLines.length));
+    for (let from = 0; from < count;) {
+      const room = Math.floor((layout.contentBottom - layout.y - carryHeight - CELL_PADDING * 2) / LINE_HEIGHT);
+      const to = Math.min(count, from + Math.max(room, 1));
+      setBody(layout, row.kind === 'subtotal' ? 'bold' : 'normal');
+      drawLines(layout, table, widths, lines.map(cellLines => cellLines.slice(from, to)));
+      if (from === 0) carried = add(carried, toDecimal(row.value));
+      from = to;
+      if (from < count) breakPage();
+    }
+  };
+
+  // The header only starts a page that also has room for the first row, or for the totals
+  // of an empty table
+  ensureSpace(layout, headerHeight + (table.rows.length > 0 ? neededFor(0) : keepWithLast));
+  drawTableHeader(layout, table, widths);
+
+  table.rows.forEach((row, index) => {
+    if (index > 0 && layout.y + neededFor(index) > layout.contentBottom) breakPage();
+
+    if (row.kind === 'heading') {
+      drawSectionHeading(layout, row.cells[0]);
+    } else if (isSplit(row)) {
+      drawSplitRow(row);
+      drawRule(layout, '#e5e7eb');
+      return;
+    } else {
+      drawCells(layout, table, widths, row.cells, row.kind === 'subtotal');
+    }
+    drawRule(layout, '#e5e7eb');
+    carried = add(carried, toDecimal(row.value));
+  });
+};
+
+// The logo keeps its aspect ratio inside a fixed box. Formats jsPDF cannot embed are skipped
+// rather than failing the whole export.
+const drawLogo = (layout: Layout, logo: string) => {
+  const { doc } = layout;
+  try {
+    const { width, height, fileType } = doc.getImageProperties(logo);
+    const scale = Math.min(LOGO_MAX_WIDTH / width, LOGO_MAX_HEIGHT / height);
+    doc.addImage(logo, fileType, MARGIN, layout.y, width * scale, height * scale);
+    layout.y += height * scale + 4;
+  } catch {
+    // Leave the space to the title
+  }
+};
+
+const drawHeader = (layout: Layout) => {
+  const { doc, document } = layout;
+  if (document.logo) drawLogo(layout, document.logo);
+  setHeading(layout, 24);
+  doc.text(document.title, MARGIN, layout.y + 8);
+  setBody(layout);
+  doc.setTextColor('#4b5563');
+  doc.text(`#${document.number}`, MARGIN, layout.y + 14);
+
+  setBody(layout);
+  document.fields.forEach((field, index) => {
+    const y = layout.y + 6 + index * LINE_HEIGHT;
+    doc.setFont(layout.bodyFont, 'normal');
+    const valueWidth = doc.getTextWidth(field.value);
+    doc.text(field.value, MARGIN + CONTENT_WIDTH, y, { align: 'right' });
+    doc.setFont(layout.bodyFont, 'bold');
+    doc.text(`${field.label}: `, MARGIN + CONTENT_WIDTH - valueWidth, y, { align: 'right' });
+  });
+  layout.y += Math.max(20, document.fields.length * LINE_HEIGHT + 8);
+};
+
+// Parties sit side by side in equal columns, like the preview. The blocks are wrapped first,
+// so they move to the next page together, or break between lines when longer than a page.
+const drawParties = (layout: Layout) => {
+  const { doc, document } = layout;
+  const columnWidth = CONTENT_WIDTH / Math.max(document.parties.length, 2);
+  const blocks = document.parties.map(party => {
+    setBody(layout, 'bold');
+    const name = splitLines(doc, party.name, columnWidth - 5);
+    setBody(layout);
+    const lines = party.lines.flatMap(line => line.split('\n').flatMap(part => splitLines(doc, part, columnWidth - 5)));
+    return [
+      { text: party.heading, style: 'heading' as const },
+      ...name.map(text => ({ text, style: 'bold' as const })),
+      ...lines.map(text => ({ text, style: 'normal' as const }))
+    ];
+  });
+  const count = Math.max(0, ...blocks.map(block => block.length));
+  const height = LINE_HEIGHT * (count + 1);
+  if (height <= layout.contentBottom - MARGIN) ensureSpace(layout, height);
+
+  for (let from = 0; from < count;) {
+    if (layout.contentBottom - layout.y < LINE_HEIGHT * 2) newPage(layout);
+    const to = Math.min(count, from + Math.floor((layout.contentBottom - layout.y) / LINE_HEIGHT) - 1);
+    blocks.forEach((block, index) => {
+      const x = MARGIN + index * columnWidth;
+      block.slice(from, to).forEach((line, offset) => {
+        if (line.style === 'heading') setHeading(layout);
+        else setBody(layout, line.style);
+        doc.text(line.text, x, layout.y + LINE_HEIGHT * (offset + 1) + (from + offset > 0 ? 1 : 0));
+      });
+    });
+    layout.y += LINE_HEIGHT * (to - from);
+    from = to;
+    if (from < count) newPage(layout);
+  }
+  layout.y += LINE_HEIGHT + 6;
+};
+
+const totalsHeight = (document: InvoiceDocument) =>
+  4 + (document.totals.length + document.balance.length) * (LINE_HEIGHT + 1) + LINE_HEIGHT * 2 + 6;
+
+const drawTotals = (layout: Layout) => {
+  const { doc, document } = layout;
+  const labelX = MARGIN + CONTENT_WIDTH - TOTALS_WIDTH;
+  const valueX = MARGIN + CONTENT_WIDTH - CELL_PADDING;
+  ensureSpace(layout, totalsHeight(document));
+  layout.y += 4;
+  setBody(layout);
+  document.totals.forEach(total => {
+    doc.text(`${total.label}:`, labelX, layout.y + LINE_HEIGHT);
+    doc.text(total.value, valueX, layout.y + LINE_HEIGHT, { align: 'right' });
+    layout.y += LINE_HEIGHT + 1;
+  });
+  doc.setDrawColor('#e5e7eb');
+  doc.line(labelX, layout.y + 2, valueX, layout.y + 2);
+  setHeading(layout, 14);
+  doc.setFont(layout.bodyFont, 'bold');
+  doc.text(`${document.grandTotal.label}:`, labelX, layout.y + LINE_HEIGHT + 4);
+  doc.text(document.grandTotal.value, valueX, layout.y + LINE_HEIGHT + 4, { align: 'right' });
+  layout.y += LINE_HEIGHT * 2 + 6;
+  setBody(layout, 'bold');
+  document.balance.forEach(row => {
+    doc.text(`${row.label}:`, labelX, layout.y);
+    doc.text(row.value, valueX, layout.y, { align: 'right' });
+    layout.y += LINE_HEIGHT + 1;
+  });
+};
+
+// Free text may break between lines, but never mid-line
+const drawText = (layout: Layout, text: string) => {
+  setBody(layout);
+  splitLines(layout.doc, text, CONTENT_WIDTH).forEach(line => {
+    ensureSpace(layout, LINE_HEIGHT);
+    setBody(layout);
+    layout.doc.text(line, MARGIN, layout.y + LINE_HEIGHT - 1.2);
+    layout.y += LINE_HEIGHT;
+  });
+};
+
+// Wraps the footer once so the space it needs is known before any content is laid out
+const wrapFooter = (doc: jsPDF, footer: string[], bodyFont: string) => {
+  doc.setFont(bodyFont, 'normal');
+  doc.setFontSize(FOOTER_SIZE);
+  return footer.flatMap(line => splitLines(doc, line, CONTENT_WIDTH));
+};
+
+const drawFooters = (layout: Layout) => {
+  const { doc, footerLines } = layout;
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont(layout.bodyFont, 'normal');
+    doc.setTextColor('#6b7280');
+    if (footerLines.length > 0) {
+      const top = layout.contentBottom + 2;
+      doc.setDrawColor('#e5e7eb');
+      doc.line(MARGIN, top, MARGIN + CONTENT_WIDTH, top);
+      doc.setFontSize(FOOTER_SIZE);
+      footerLines.forEach((line, index) => doc.text(line, MARGIN, top + FOOTER_LINE_HEIGHT * (index + 1)));
+    }
+    doc.setFontSize(9);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 5, { align: 'right' });
+  }
+};
+
+export const renderInvoicePdf = (document: InvoiceDocument): jsPDF => {
+  const doc = new jsPDF();
+  const bodyFont = getPdfFont(document.theme.bodyFont);
+  const footerLines = wrapFooter(doc, document.footer, bodyFont);
+  const footerHeight = footerLines.length > 0 ? footerLines.length * FOOTER_LINE_HEIGHT + 4 : 0;
+  const layout: Layout = {
+    doc,
+    y: MARGIN,
+    contentBottom: PAGE_HEIGHT - MARGIN - PAGE_NUMBER_BAND - footerHeight,
+    footerLines,
+    document,
+    headingFont: getPdfFont(document.theme.headingFont),
+    bodyFont
+  };
+
+  drawHeader(layout);
+  drawParties(layout);
+  drawTable(layout, document.items, totalsHeight(document));
+  drawTotals(layout);
+
+  document.sections.forEach(section => {
+    ensureSpace(layout, LINE_HEIGHT * 4);
+    setHeading(layout);
+    doc.text(section.heading, MARGIN, layout.y + LINE_HEIGHT);
+    layout.y += LINE_HEIGHT * 2;
+    if (section.table) drawTable(layout, section.table);
+    if (section.text) drawText(layout, section.text);
+    layout.y += 6;
+  });
+
+  drawFooters(layout);
+  return doc;
+};
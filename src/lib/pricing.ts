@@ -0,0 +1,203 @@
+import {
+  add,
+  compare,
+  divide,
+  multiply,
+  percentOf,
+  roundMoney,
+  roundToIncrement,
+  subtract,
+  sum,
+  toDecimal,
+  toNumber,
+  ZERO,
+  type Decimal
+} from '@/lib/money';
+import { calculateTaxes, type TaxBreakdownRow } from '@/lib/tax';
+import { formatMoney } from '@/lib/currency';
+import {
+  getItemTaxIds,
+  type AdjustmentTiming,
+  type Discount,
+  type InvoiceAdjustment,
+  type InvoiceData,
+  type InvoiceItem
+} from '@/lib/invoice';
+
+type PricingFields =
+  'items' | 'currency' | 'taxRates' | 'taxIds' | 'taxInclusive' | 'rounding' | 'lineDiscountTiming' | 'adjustments';
+
+type PricingSettings = Pick<InvoiceData, 'currency' | 'rounding'>;
+
+export interface LinePricing {
+  original: number; // quantity x rate
+  discount: number; // positive amount taken off the line
+  net: number;
+}
+
+export interface AdjustmentRow {
+  id: string;
+  label: string;
+  amount: number; // negative for discounts
+  timing: AdjustmentTiming;
+}
+
+export interface InvoiceTotals {
+  subtotal: number; // sum of line amounts before invoice-level adjustments and tax
+  adjustments: AdjustmentRow[];
+  tax: number;
+  breakdown: TaxBreakdownRow[];
+  rounding: number; // cash rounding adjustment, already included in total
+  total: number;
+}
+
+// Rounds to the currency's minor unit when rounding per line, otherwise keeps full precision
+const settleFor = ({ currency, rounding }: PricingSettings) =>
+  rounding.strategy === 'per-line'
+    ? (value: Decimal) => roundMoney(value, currency, rounding.mode)
+    : (value: Decimal) => value;
+
+const discountAmount = (base: Decimal, discount: Discount) =>
+  discount.type === 'percent' ? percentOf(base, discount.value) : toDecimal(discount.value);
+
+const linePricing = (item: InvoiceItem, settings: PricingSettings) => {
+  const settle = settleFor(settings);
+  const original = settle(multiply(toDecimal(item.quantity), toDecimal(item.rate)));
+  // A credit note's negative lines credit a fixed discount as a negative one
+  const applies = item.discount && (item.discount.value > 0 || (item.discount.type === 'fixed' && item.quantity < 0));
+  const discount = item.discount && applies ? settle(discountAmount(original, item.discount)) : ZERO;
+  return { original, discount, net: subtract(original, discount) };
+};
+
+export const getLinePricing = (item: InvoiceItem, settings: PricingSettings): LinePricing => {
+  const { original, discount, net } = linePricing(item, settings);
+  return { original: toNumber(original), discount: toNumber(discount), net: toNumber(net) };
+};
+
+export const calculateItemAmount = (item: InvoiceItem, settings: PricingSettings) =>
+  getLinePricing(item, settings).net;
+
+// Recompute every line amount, e.g. after the currency or rounding settings change
+export const recalculateItems = (invoice: Pick<InvoiceData, 'items' | 'currency' | 'rounding'>) =>
+  invoice.items.map(item => ({ ...item, amount: calculateItemAmount(item, invoice) }));
+
+export const formatDiscount = (discount: Discount, currency: string) =>
+  discount.type === 'percent' ? `${discount.value}%` : formatMoney(discount.value, currency);
+
+export const formatAdjustmentLabel = (adjustment: InvoiceAdjustment, currency: string) =>
+  `${adjustment.label || (adjustment.kind === 'discount' ? 'Discount' : 'Surcharge')}` +
+  (adjustment.type === 'percent' ? ` (${formatDiscount(adjustment, currency)})` : '');
+
+// Spread an invoice-level amount over the lines in proportion to their amounts, so taxes
+// are reduced (or increased) at each line's own rates. The last line absorbs the remainder.
+// Lines that add up to nothing, e.g. credits netting out a charge, give no proportions, so
+// the first line takes the whole amount.
+const allocate = (amount: Decimal, bases: Decimal[], settle: (value: Decimal) => Decimal) => {
+  const total = sum(bases);
+  if (total.units === BigInt(0)) return bases.map((_base, index) => index === 0 ? amount : ZERO);
+  let remaining = amount;
+  return bases.map((base, index) => {
+    if (index === bases.length - 1) return remaining;
+    const share = settle(divide(multiply(amount, base), total));
+    remaining = subtract(remaining, share);
+    return share;
+  });
+};
+
+// Signed amounts of the given adjustments on a base. Discounts take off at most what is left
+// of a positive base, so a discount larger than the subtotal brings it to zero, not below.
+const adjustmentAmounts = (adjustments: InvoiceAdjustment[], base: Decimal, settings: PricingSettings) => {
+  let remaining = base;
+  return adjustments.map(adjustment => {
+    let amount = roundMoney(discountAmount(base, adjustment), settings.currency, settings.rounding.mode);
+    if (adjustment.kind === 'surcharge') {
+      remaining = add(remaining, amount);
+      return { adjustment, amount };
+    }
+    if (compare(remaining, ZERO) >= 0 && compare(amount, remaining) > 0) amount = remaining;
+    remaining = subtract(remaining, amount);
+    return { adjustment, amount: subtract(ZERO, amount) };
+  });
+};
+
+// The amount each line is taxed on: its own amount plus its share of the invoice-level
+// adjustments made before tax
+const taxBases = (invoice: Pick<InvoiceData, PricingFields>) => {
+  const lineDiscountsAfterTax = invoice.lineDiscountTiming === 'after-tax';
+  const lines = invoice.items.map(item => linePricing(item, invoice));
+  const bases = lines.map(line => lineDiscountsAfterTax ? line.original : line.net);
+  const subtotal = sum(bases);
+  const beforeTax = adjustmentAmounts(
+    invoice.adjustments.filter(adjustment => adjustment.timing === 'before-tax'),
+    subtotal,
+    invoice
+  );
+  const adjusted = sum(beforeTax.map(entry => entry.amount));
+  const shares = allocate(adjusted, bases, settleFor(invoice));
+  return {
+    lines,
+    subtotal,
+    beforeTax,
+    taxable: bases.map((base, index) => add(base, shares[index])),
+    unallocated: bases.length === 0 ? adjusted : ZERO // without lines there is nothing to tax it with
+  };
+};
+
+export const getTaxableAmounts = (invoice: Pick<InvoiceData, PricingFields>) =>
+  taxBases(invoice).taxable.map(toNumber);
+
+export const calculateTotals = (invoice: Pick<InvoiceData, PricingFields>): InvoiceTotals => {
+  const { currency, rounding } = invoice;
+  const toMoney = (value: Decimal) => roundMoney(value, currency, rounding.mode);
+  const lineDiscountsAfterTax = invoice.lineDiscountTiming === 'after-tax';
+  const { lines, subtotal, beforeTax, taxable, unallocated } = taxBases(invoice);
+
+  const taxes = calculateTaxes(
+    invoice.items.map((item, index) => ({
+      amount: toNumber(taxable[index]),
+      taxIds: getItemTaxIds(item, invoice)
+    })),
+    invoice.taxRates,
+    invoice.taxInclusive,
+    currency,
+    rounding
+  );
+  const taxedTotal = add(toDecimal(taxes.total), unallocated);
+
+  const afterTax = adjustmentAmounts(
+    invoice.adjustments.filter(adjustment => adjustment.timing === 'after-tax'),
+    taxedTotal,
+    invoice
+  );
+  const lineDiscounts = lineDiscountsAfterTax ? toMoney(sum(lines.map(line => line.discount))) : ZERO;
+
+  const adjustments: AdjustmentRow[] = [
+    ...beforeTax.map(({ adjustment, amount }) => ({
+      id: adjustment.id,
+      label: formatAdjustmentLabel(adjustment, currency),
+      amount: toNumber(amount),
+      timing: adjustment.timing
+    })),
+    ...(lineDiscounts.units !== BigInt(0)
+      ? [{ id: 'line-discounts', label: 'Line discounts', amount: -toNumber(lineDiscounts), timing: 'after-tax' as const }]
+      : []),
+    ...afterTax.map(({ adjustment, amount }) => ({
+      id: adjustment.id,
+      label: formatAdjustmentLabel(adjustment, currency),
+      amount: toNumber(amount),
+      timing: adjustment.timing
+    }))
+  ];
+
+  const total = subtract(add(taxedTotal, sum(afterTax.map(entry => entry.amount))), lineDiscounts);
+  const payable = roundToIncrement(total, rounding.cashIncrement, currency, rounding.mode);
+
+  return {
+    subtotal: toNumber(toMoney(subtotal)),
+    adjustments,
+    tax: taxes.tax,
+    breakdown: taxes.breakdown,
+    rounding: toNumber(subtract(payable, total)),
+    total: toNumber(payable)
+  };
+};
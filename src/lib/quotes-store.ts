@@ -0,0 +1,13 @@
+import type { DocumentReference } from '@/lib/invoice';
+import { getInvoice, saveInvoice } from '@/lib/invoice-store';
+
+// The invoice made from a quote is only numbered when it is finalized; the quote's link
+// picks up that number then
+export const linkConvertedInvoice = async (quoteId: string, invoice: DocumentReference) => {
+  const quote = await getInvoice(quoteId);
+  if (!quote) {
+    throw new Error('The quote no longer exists');
+  }
+  const { id, createdAt, updatedAt: _updatedAt, ...data } = quote;
+  return saveInvoice(id, { ...data, convertedTo: invoice }, createdAt);
+};
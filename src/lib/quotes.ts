@@ -0,0 +1,51 @@
+import { addDays } from '@/lib/dates';
+import { createBlankInvoice, createId, todayISO, type InvoiceData } from '@/lib/invoice';
+import { DEFAULT_QUOTE_SERIES, DEFAULT_SERIES } from '@/lib/numbering';
+import { getDueDate } from '@/lib/payment-terms';
+import type { TaxRate } from '@/lib/tax';
+
+export const QUOTE_VALIDITY_DAYS = 30;
+
+export const createBlankQuote = (taxRates?: TaxRate[]): InvoiceData => {
+  const quote = createBlankInvoice(taxRates);
+  return {
+    ...quote,
+    documentType: 'quote',
+    seriesId: DEFAULT_QUOTE_SERIES.id,
+    validUntil: addDays(quote.invoiceDate, QUOTE_VALIDITY_DAYS)
+  };
+};
+
+// A quote is converted once the client has seen it and has not turned it down
+export const canConvertQuote = (quote: Pick<InvoiceData, 'documentType' | 'status' | 'finalizedAt' | 'convertedTo'>) =>
+  quote.documentType === 'quote' &&
+  !!quote.finalizedAt &&
+  (quote.status === 'sent' || quote.status === 'accepted') &&
+  !quote.convertedTo;
+
+// The invoice starts as a draft with the quote's lines, client, notes, pricing settings and
+// payment terms
+export const convertQuoteToInvoice = (quote: InvoiceData & { id: string }): InvoiceData => {
+  const invoiceDate = todayISO();
+  return {
+    ...structuredClone(quote),
+    documentType: 'invoice',
+    reference: { id: quote.id, number: quote.invoiceNumber, type: quote.documentType },
+    convertedTo: undefined,
+    invoiceNumber: '',
+    seriesId: DEFAULT_SERIES.id,
+    finalizedAt: undefined,
+    sender: undefined,
+    invoiceDate,
+    dueDate: quote.paymentTerms ? getDueDate(quote.paymentTerms, invoiceDate) : '',
+    validUntil: '',
+    items: quote.items.map(item => ({ ...structuredClone(item), id: createId() })),
+    recurringProfileId: undefined,
+    status: 'draft',
+    statusHistory: [],
+    contacts: [],
+    payments: [],
+    credits: [],
+    lateCharges: []
+  };
+};
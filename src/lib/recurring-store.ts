@@ -0,0 +1,77 @@
+import { deleteOne, getAll, openDatabase, putOne } from '@/lib/db';
+import { createId, normalizeInvoice, todayISO } from '@/lib/invoice';
+import { toSavedInvoice, type SavedInvoice } from '@/lib/invoice-store';
+import { advanceProfile, createDraftFromProfile, isRunDue, type RecurringProfile } from '@/lib/recurring';
+
+export const listProfiles = async (): Promise<RecurringProfile[]> => {
+  const profiles = await getAll<RecurringProfile>('recurringProfiles');
+  return profiles
+    .map(profile => ({ ...profile, template: normalizeInvoice(profile.template) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveProfile = (profile: RecurringProfile) => putOne('recurringProfiles', structuredClone(profile));
+
+export const deleteProfile = (id: string) => deleteOne('recurringProfiles', id);
+
+// Writes the drafts and the advanced schedule in one transaction, so a run is never
+// recorded without its draft. If another tab advanced the schedule in the meantime the
+// transaction is dropped rather than generating the same runs twice.
+const commitRuns = async (original: RecurringProfile, advanced: RecurringProfile, drafts: SavedInvoice[]) => {
+  const db = await openDatabase();
+  return new Promise<boolean>((resolve, reject) => {
+    const transaction = db.transaction(['invoices', 'recurringProfiles'], 'readwrite');
+    const profiles = transaction.objectStore('recurringProfiles');
+    let committed = false;
+
+    const request = profiles.get(original.id);
+    request.onsuccess = () => {
+      const stored: RecurringProfile | undefined = request.result;
+      if (!stored || stored.runCount !== original.runCount) {
+        transaction.abort();
+        return;
+      }
+      const invoices = transaction.objectStore('invoices');
+      drafts.forEach(draft => invoices.put(draft));
+      profiles.put(advanced);
+      committed = true;
+    };
+
+    transaction.oncomplete = () => resolve(committed);
+    transaction.onabort = () => committed ? reject(transaction.error) : resolve(false);
+  });
+};
+
+export interface GeneratedDrafts {
+  drafts: SavedInvoice[];
+  failed: RecurringProfile[]; // profiles whose schedule broke, with the reason in `error`
+}
+
+// Creates a draft for every run that has come due, including runs missed while the app
+// was closed. Returns the new drafts for review. A profile whose schedule cannot be
+// followed is marked with the error and skipped, so it does not hold up the others.
+export const generateDueDrafts = async (today = todayISO()): Promise<GeneratedDrafts> => {
+  const profiles = await listProfiles();
+  const created: SavedInvoice[] = [];
+  const failed: RecurringProfile[] = [];
+
+  for (const original of profiles) {
+    try {
+      let profile = original;
+      const drafts: SavedInvoice[] = [];
+      while (isRunDue(profile, today)) {
+        drafts.push(toSavedInvoice(createId(), createDraftFromProfile(profile)));
+        profile = advanceProfile(profile);
+      }
+      if (drafts.length > 0 && await commitRuns(original, { ...profile, error: undefined }, drafts)) {
+        created.push(...drafts);
+      }
+    } catch (error) {
+      const broken = { ...original, error: error instanceof Error ? error.message : 'The schedule could not be followed' };
+      await saveProfile(broken).catch(() => undefined);
+      failed.push(broken);
+    }
+  }
+
+  return { drafts: created, failed };
+};
@@ -0,0 +1,142 @@
+import { nextCronDate } from '@/lib/cron';
+import { addDays, addMonths, daysBetween, formatMonth } from '@/lib/dates';
+import { createId, type InvoiceData } from '@/lib/invoice';
+import { getDueDate } from '@/lib/payment-terms';
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'custom';
+
+export interface RecurringProfile {
+  id: string;
+  name: string;
+  template: InvoiceData;
+  frequency: RecurrenceFrequency;
+  cron: string; // only used by the custom frequency
+  startDate: string;
+  endDate?: string;
+  active: boolean;
+  runCount: number;
+  nextRunDate: string;
+  lastRunDate?: string;
+  error?: string; // why drafts could not be generated; cleared when the schedule is saved
+}
+
+export interface BillingPeriod {
+  start: string;
+  end: string;
+}
+
+export const FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'custom', label: 'Custom (cron)' }
+];
+
+// Placeholders allowed in line descriptions and notes, e.g. "Retainer {period_start}–{period_end}"
+export const PERIOD_PLACEHOLDERS = ['{period_start}', '{period_end}', '{period_month}', '{period_year}'];
+
+// A template never carries a number, status or contact history of its own
+export const toTemplate = (invoice: InvoiceData): InvoiceData => ({
+  ...structuredClone(invoice),
+  invoiceNumber: '',
+  finalizedAt: undefined,
+  sender: undefined,
+  convertedTo: undefined,
+  recurringProfileId: undefined,
+  status: 'draft',
+  statusHistory: [],
+  contacts: [],
+  payments: [],
+  credits: [],
+  lateCharges: []
+});
+
+export const createProfile = (template: InvoiceData, startDate: string): RecurringProfile => ({
+  id: createId(),
+  name: template.clientInfo.company || template.clientInfo.name || 'Recurring Invoice',
+  template: toTemplate(template),
+  frequency: 'monthly',
+  cron: '0 9 1 * *',
+  startDate,
+  active: true,
+  runCount: 0,
+  nextRunDate: startDate
+});
+
+// Fixed frequencies count from the start date, so a schedule starting on the 31st keeps
+// returning to the 31st instead of drifting to the 28th after February
+const runDateAt = (profile: RecurringProfile, runIndex: number, previousRun: string) => {
+  switch (profile.frequency) {
+    case 'weekly':
+      return addDays(profile.startDate, runIndex * 7);
+    case 'monthly':
+      return addMonths(profile.startDate, runIndex);
+    case 'quarterly':
+      return addMonths(profile.startDate, runIndex * 3);
+    case 'custom':
+      return nextCronDate(profile.cron, runIndex === 0 ? profile.startDate : addDays(previousRun, 1));
+  }
+};
+
+// Resets the schedule, e.g. after the frequency or start date is edited
+export const rescheduleProfile = (profile: RecurringProfile): RecurringProfile => ({
+  ...profile,
+  nextRunDate: runDateAt(profile, profile.runCount, profile.lastRunDate || profile.startDate)
+});
+
+// Null when the schedule can produce its next run and the one after it, which ends the
+// billing period. A custom expression may be valid cron yet never match, e.g. "0 0 31 2 *".
+export const getScheduleError = (profile: RecurringProfile) => {
+  try {
+    getBillingPeriod(rescheduleProfile(profile));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid schedule';
+  }
+};
+
+export const isRunDue = (profile: RecurringProfile, today: string) =>
+  profile.active && profile.nextRunDate <= today && (!profile.endDate || profile.nextRunDate <= profile.endDate);
+
+// A run covers the days from its own date up to the day before the next run
+export const getBillingPeriod = (profile: RecurringProfile): BillingPeriod => {
+  const start = profile.nextRunDate;
+  const next = runDateAt(profile, profile.runCount + 1, start);
+  return { start, end: addDays(next, -1) };
+};
+
+export const fillPlaceholders = (text: string, period: BillingPeriod) =>
+  text
+    .split('{period_start}').join(period.start)
+    .split('{period_end}').join(period.end)
+    .split('{period_month}').join(formatMonth(period.start))
+    .split('{period_year}').join(period.start.slice(0, 4));
+
+// The draft for the profile's next run. Its number is taken from the template's series
+// when it is finalized, so each run continues the sequence.
+export const createDraftFromProfile = (profile: RecurringProfile): InvoiceData => {
+  const { template } = profile;
+  const period = getBillingPeriod(profile);
+  const invoiceDate = profile.nextRunDate;
+  const dueDate = template.paymentTerms
+    ? getDueDate(template.paymentTerms, invoiceDate)
+    : template.dueDate ? addDays(invoiceDate, daysBetween(template.invoiceDate, template.dueDate)) : '';
+  return {
+    ...toTemplate(template),
+    invoiceDate,
+    dueDate,
+    items: template.items.map(item => ({ ...item, id: createId(), description: fillPlaceholders(item.description, period) })),
+    notes: fillPlaceholders(template.notes, period),
+    recurringProfileId: profile.id
+  };
+};
+
+export const advanceProfile = (profile: RecurringProfile): RecurringProfile => {
+  const runCount = profile.runCount + 1;
+  return {
+    ...profile,
+    runCount,
+    lastRunDate: profile.nextRunDate,
+    nextRunDate: runDateAt(profile, runCount, profile.nextRunDate)
+  };
+};
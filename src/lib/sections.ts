@@ -0,0 +1,67 @@
+import { createId, type InvoiceData, type InvoiceItem } from '@/lib/invoice';
+import { sum, toDecimal, toNumber } from '@/lib/money';
+
+// Line items can be grouped into titled sections such as "Design" or "Expenses". Items keep
+// living in one flat list and point at their section; the display order is the ungrouped
+// items first, then each section in order with its items in list order.
+
+export interface ItemSection {
+  id: string;
+  title: string;
+  showSubtotal: boolean;
+}
+
+export interface ItemGroup {
+  section: ItemSection | null; // null for items outside any section
+  items: InvoiceItem[];
+}
+
+// Where a dragged item or section lands, relative to an existing row
+export interface DropTarget {
+  sectionId: string | null;
+  beforeItemId?: string; // the item to insert before; the end of the section when omitted
+}
+
+export const createSection = (title = 'New Section'): ItemSection => ({ id: createId(), title, showSubtotal: true });
+
+export const groupItems = (invoice: Pick<InvoiceData, 'items' | 'sections'>): ItemGroup[] => {
+  const inSection = (item: InvoiceItem, section: ItemSection | null) =>
+    section ? item.sectionId === section.id : !invoice.sections.some(current => current.id === item.sectionId);
+  return [null, ...invoice.sections].map(section => ({
+    section,
+    items: invoice.items.filter(item => inSection(item, section))
+  }));
+};
+
+const flattenGroups = (groups: ItemGroup[]) =>
+  groups.flatMap(({ section, items }) => items.map(item => ({ ...item, sectionId: section?.id })));
+
+export const getSectionSubtotal = (items: InvoiceItem[]) => toNumber(sum(items.map(item => toDecimal(item.amount))));
+
+export const moveItem = (invoice: Pick<InvoiceData, 'items' | 'sections'>, itemId: string, target: DropTarget) => {
+  const moving = invoice.items.find(item => item.id === itemId);
+  if (!moving || target.beforeItemId === itemId) return invoice.items;
+  const groups = groupItems(invoice).map(group => ({
+    ...group,
+    items: group.items.filter(item => item.id !== itemId)
+  }));
+  const group = groups.find(current => (current.section?.id ?? null) === target.sectionId) ?? groups[0];
+  const index = group.items.findIndex(item => item.id === target.beforeItemId);
+  group.items.splice(index < 0 ? group.items.length : index, 0, moving);
+  return flattenGroups(groups);
+};
+
+export const moveSection = (sections: ItemSection[], sectionId: string, beforeSectionId: string | null) => {
+  const moving = sections.find(section => section.id === sectionId);
+  if (!moving || beforeSectionId === sectionId) return sections;
+  const rest = sections.filter(section => section.id !== sectionId);
+  const index = rest.findIndex(section => section.id === beforeSectionId);
+  rest.splice(index < 0 ? rest.length : index, 0, moving);
+  return rest;
+};
+
+// The section's items are kept and move to the ungrouped items
+export const removeSection = (invoice: Pick<InvoiceData, 'items' | 'sections'>, sectionId: string) => {
+  const sections = invoice.sections.filter(section => section.id !== sectionId);
+  return { sections, items: flattenGroups(groupItems({ items: invoice.items, sections })) };
+};
@@ -0,0 +1,16 @@
+import { getOne, putOne } from '@/lib/db';
+
+interface SettingRecord<T> {
+  id: string;
+  value: T;
+}
+
+export const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const record = await getOne<SettingRecord<T>>('settings', key);
+  return record ? record.value : fallback;
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<T> => {
+  await putOne<SettingRecord<T>>('settings', { id: key, value: structuredClone(value) });
+  return value;
+};
@@ -0,0 +1,134 @@
+import { addDays, daysBetween } from '@/lib/dates';
+import { DOCUMENT_TYPE_LABELS, type InvoiceData } from '@/lib/invoice';
+
+// The status stored on an invoice. "Overdue" is never stored: it follows from the due
+// date, so an unpaid invoice turns overdue without anyone having to mark it. Quotes are
+// accepted or declined instead of paid, and expire the same way invoices become overdue.
+export type StoredStatus = 'draft' | 'sent' | 'partially-paid' | 'paid' | 'accepted' | 'declined' | 'void';
+
+export type InvoiceStatus = StoredStatus | 'overdue' | 'expired';
+
+// Nothing ever goes back to draft
+export type TargetStatus = Exclude<StoredStatus, 'draft'>;
+
+export type ManualStatus = Extract<TargetStatus, 'sent' | 'accepted' | 'declined' | 'void'>;
+
+export interface StatusTransition {
+  from: StoredStatus;
+  to: StoredStatus;
+  at: string; // ISO timestamp
+}
+
+// A reminder or other follow-up sent to the client about this invoice
+export interface ContactRecord {
+  at: string;
+  note: string;
+}
+
+export const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  'partially-paid': 'Partially Paid',
+  paid: 'Paid',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  overdue: 'Overdue',
+  expired: 'Expired',
+  void: 'Void'
+};
+
+export const STATUS_BADGE_CLASSES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  'partially-paid': 'bg-amber-100 text-amber-800',
+  paid: 'bg-green-100 text-green-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-800',
+  overdue: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-500',
+  void: 'bg-gray-200 text-gray-500 line-through'
+};
+
+// Moving back from paid happens when a payment is reversed
+const TRANSITIONS: Record<StoredStatus, TargetStatus[]> = {
+  draft: ['sent', 'void'],
+  sent: ['partially-paid', 'paid', 'void'],
+  'partially-paid': ['paid', 'sent'],
+  paid: ['partially-paid', 'sent'],
+  accepted: [],
+  declined: [],
+  void: []
+};
+
+// A client can change their mind about a quote after answering it
+const QUOTE_TRANSITIONS: Record<StoredStatus, TargetStatus[]> = {
+  draft: ['sent', 'void'],
+  sent: ['accepted', 'declined', 'void'],
+  'partially-paid': [],
+  paid: [],
+  accepted: ['declined', 'void'],
+  declined: ['accepted', 'void'],
+  void: []
+};
+
+type StatusFields = Pick<InvoiceData, 'documentType' | 'status' | 'statusHistory' | 'dueDate' | 'validUntil'>;
+
+type TransitionFields = Pick<InvoiceData, 'documentType' | 'status'>;
+
+const getTransitions = (invoice: TransitionFields) =>
+  (invoice.documentType === 'quote' ? QUOTE_TRANSITIONS : TRANSITIONS)[invoice.status];
+
+export const canTransition = (invoice: TransitionFields, to: TargetStatus) => getTransitions(invoice).includes(to);
+
+// Paid and partially paid follow from the payments ledger; sending, voiding and the
+// client's answer to a quote are manual
+export const getManualTransitions = (invoice: TransitionFields) =>
+  getTransitions(invoice).filter((to): to is ManualStatus =>
+    to === 'void' || to === 'accepted' || to === 'declined' || (to === 'sent' && invoice.status === 'draft'));
+
+export const transitionStatus = (
+  invoice: Pick<InvoiceData, 'documentType' | 'status' | 'statusHistory'>,
+  to: TargetStatus,
+  at = new Date().toISOString()
+): Pick<InvoiceData, 'status' | 'statusHistory'> => {
+  if (!canTransition(invoice, to)) {
+    throw new Error(`This ${DOCUMENT_TYPE_LABELS[invoice.documentType].toLowerCase()} cannot go from ${STATUS_LABELS[invoice.status]} to ${STATUS_LABELS[to]}`);
+  }
+  return { status: to, statusHistory: [...invoice.statusHistory, { from: invoice.status, to, at }] };
+};
+
+const isAwaitingPayment = (status: StoredStatus) => status === 'sent' || status === 'partially-paid';
+
+export const getEffectiveStatus = (invoice: StatusFields, today: string): InvoiceStatus => {
+  if (invoice.documentType === 'quote') {
+    return invoice.status === 'sent' && invoice.validUntil && invoice.validUntil < today ? 'expired' : invoice.status;
+  }
+  return isAwaitingPayment(invoice.status) && invoice.dueDate && invoice.dueDate < today ? 'overdue' : invoice.status;
+};
+
+export const getDaysOverdue = (invoice: StatusFields, today: string) =>
+  getEffectiveStatus(invoice, today) === 'overdue' ? daysBetween(invoice.dueDate, today) : 0;
+
+// Sending the invoice counts as the first contact, each recorded reminder as another
+export const getPreviousContacts = (invoice: Pick<InvoiceData, 'statusHistory' | 'contacts'>) =>
+  invoice.statusHistory.filter(transition => transition.from === 'draft' && transition.to === 'sent').length +
+  invoice.contacts.length;
+
+// Once sent, the issued document is fixed; only its status and payments change
+export const isLocked = (invoice: Pick<InvoiceData, 'status'>) => invoice.status !== 'draft';
+
+export interface TimelineEntry {
+  status: InvoiceStatus;
+  at: string; // ISO timestamp or, for the derived overdue and expired entries, the date it happened
+}
+
+export const getStatusTimeline = (invoice: StatusFields, today: string): TimelineEntry[] => {
+  const entries: TimelineEntry[] = invoice.statusHistory.map(transition => ({ status: transition.to, at: transition.at }));
+  const status = getEffectiveStatus(invoice, today);
+  if (status === 'overdue') {
+    entries.push({ status, at: addDays(invoice.dueDate, 1) });
+  } else if (status === 'expired') {
+    entries.push({ status, at: addDays(invoice.validUntil, 1) });
+  }
+  return entries;
+};
@@ -0,0 +1,121 @@
+import {
+  add,
+  divide,
+  percentOf,
+  roundMoney,
+  subtract,
+  sum,
+  toDecimal,
+  toNumber,
+  ZERO,
+  type Decimal,
+  type RoundingSettings
+} from '@/lib/money';
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number; // percent, e.g. 8.875
+  compound: boolean; // charged on the line amount plus every tax listed before it
+}
+
+export interface TaxableLine {
+  amount: number;
+  taxIds: string[];
+}
+
+export interface TaxBreakdownRow {
+  taxId: string;
+  label: string;
+  taxable: number;
+  amount: number;
+}
+
+export interface TaxResult {
+  subtotal: number; // net of tax
+  tax: number;
+  total: number;
+  breakdown: TaxBreakdownRow[];
+}
+
+export const DEFAULT_TAX_RATES: TaxRate[] = [
+  { id: 'sales-tax', name: 'Sales Tax', rate: 8, compound: false }
+];
+
+export const formatTaxLabel = (taxRate: TaxRate) =>
+  `${taxRate.name} (${taxRate.rate}%${taxRate.compound ? ', compound' : ''})`;
+
+// Taxes are applied in the order of `taxRates`: simple taxes all use the net amount as their
+// base, a compound tax uses the net amount plus the taxes calculated before it. `settle`
+// rounds each tax as it is calculated when rounding per line, and is a no-op otherwise.
+const taxLine = (net: Decimal, rates: TaxRate[], settle: (value: Decimal) => Decimal) => {
+  let taxSoFar = ZERO;
+  return rates.map(taxRate => {
+    const taxable = taxRate.compound ? add(net, taxSoFar) : net;
+    const amount = settle(percentOf(taxable, taxRate.rate));
+    taxSoFar = add(taxSoFar, amount);
+    return { taxRate, taxable, amount };
+  });
+};
+
+const ONE = toDecimal(1);
+
+export const calculateTaxes = (
+  lines: TaxableLine[],
+  taxRates: TaxRate[],
+  taxInclusive: boolean,
+  currency: string,
+  rounding: RoundingSettings
+): TaxResult => {
+  const toMoney = (value: Decimal) => roundMoney(value, currency, rounding.mode);
+  const perLine = rounding.strategy === 'per-line';
+  const settle = perLine ? toMoney : (value: Decimal) => value;
+  const rows = new Map<string, { taxable: Decimal; amount: Decimal }>();
+  let lineTotal = ZERO;
+  let netTotal = ZERO;
+
+  lines.forEach(line => {
+    const rates = taxRates.filter(taxRate => line.taxIds.includes(taxRate.id));
+    const amount = settle(toDecimal(line.amount));
+    let net = amount;
+    if (taxInclusive && rates.length > 0) {
+      // Work out what one unit of net amount grosses up to and back the net out of the price
+      const grossFactor = add(ONE, sum(taxLine(ONE, rates, value => value).map(entry => entry.amount)));
+      net = divide(amount, grossFactor);
+    }
+    const entries = taxLine(net, rates, settle);
+    if (taxInclusive && perLine) {
+      // Rounded taxes come out of the price, so net + tax always equals what was charged
+      net = subtract(amount, sum(entries.map(entry => entry.amount)));
+    }
+
+    lineTotal = add(lineTotal, amount);
+    netTotal = add(netTotal, net);
+    entries.forEach(({ taxRate, taxable, amount: taxAmount }) => {
+      const row = rows.get(taxRate.id) || { taxable: ZERO, amount: ZERO };
+      rows.set(taxRate.id, { taxable: add(row.taxable, taxable), amount: add(row.amount, taxAmount) });
+    });
+  });
+
+  // Keep the breakdown in the configured order so preview and PDF list taxes identically
+  const breakdown = taxRates.filter(taxRate => rows.has(taxRate.id)).map(taxRate => {
+    const row = rows.get(taxRate.id)!;
+    return {
+      taxId: taxRate.id,
+      label: formatTaxLabel(taxRate),
+      taxable: toMoney(row.taxable),
+      amount: toMoney(row.amount)
+    };
+  });
+
+  const tax = sum(breakdown.map(row => row.amount));
+  const total = taxInclusive ? toMoney(lineTotal) : add(toMoney(netTotal), tax);
+  const subtotal = subtract(total, tax);
+
+  return {
+    subtotal: toNumber(subtotal),
+    tax: toNumber(tax),
+    total: toNumber(total),
+    breakdown: breakdown.map(row => ({ ...row, taxable: toNumber(row.taxable), amount: toNumber(row.amount) }))
+  };
+};
@@ -0,0 +1,15 @@
+import { getAll, putOne } from '@/lib/db';
+
+// A timesheet entry that has been billed, keyed by its entry key
+export interface BilledTimeEntry {
+  id: string;
+  invoiceId: string;
+  billedAt: string;
+}
+
+export const listBilledTimeEntries = () => getAll<BilledTimeEntry>('billedTimeEntries');
+
+export const markTimeEntriesBilled = async (entryKeys: string[], invoiceId: string) => {
+  const billedAt = new Date().toISOString();
+  await Promise.all(entryKeys.map(id => putOne<BilledTimeEntry>('billedTimeEntries', { id, invoiceId, billedAt })));
+};
@@ -0,0 +1,191 @@
+import { parseCsv } from '@/lib/csv';
+import { createEmptyItem, type InvoiceData, type InvoiceItem } from '@/lib/invoice';
+import { sum, toDecimal, toNumber } from '@/lib/money';
+import { calculateItemAmount } from '@/lib/pricing';
+import { roundQuantity } from '@/lib/units';
+
+// Timesheets exported from time trackers as CSV, with one row per tracked entry. Entries are
+// grouped into billable lines in hours, and each entry's key is remembered once billed so the
+// same export can be imported again without charging for the same time twice.
+
+export type TimesheetGrouping = 'task' | 'person' | 'day';
+
+export interface TimesheetEntry {
+  key: string; // identifies the entry across imports
+  line: number;
+  date: string;
+  project: string;
+  task: string;
+  person: string;
+  hours: number;
+  rate: number | null; // null when the export has no rate for the entry
+}
+
+export interface TimesheetError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedTimesheet {
+  entries: TimesheetEntry[];
+  errors: TimesheetError[];
+}
+
+export interface TimesheetLine {
+  item: InvoiceItem;
+  entryKeys: string[];
+}
+
+export const TIMESHEET_GROUPINGS: { value: TimesheetGrouping; label: string }[] = [
+  { value: 'task', label: 'By task' },
+  { value: 'person', label: 'By person' },
+  { value: 'day', label: 'By day' }
+];
+
+type Column = 'date' | 'project' | 'task' | 'person' | 'hours' | 'rate';
+
+// Header names used by common time trackers, compared in lower case
+const COLUMN_NAMES: Record<Column, string[]> = {
+  date: ['date', 'day', 'start date'],
+  project: ['project', 'client', 'job'],
+  task: ['task', 'description', 'activity', 'service'],
+  person: ['person', 'user', 'member', 'employee', 'name'],
+  hours: ['hours', 'duration', 'time', 'duration (h)'],
+  rate: ['rate', 'hourly rate', 'billable rate']
+};
+
+const REQUIRED_COLUMNS: Column[] = ['date', 'hours'];
+
+const UNIT = 'hours';
+
+// "1.5", "1,5" or "1:30"
+const parseHours = (value: string) => {
+  const text = value.trim();
+  const clock = text.match(/^(\d+):([0-5]\d)(?::([0-5]\d))?$/);
+  if (clock) return Number(clock[1]) + Number(clock[2]) / 60 + Number(clock[3] || 0) / 3600;
+  const number = Number(text.replace(',', '.'));
+  return text && Number.isFinite(number) ? number : NaN;
+};
+
+const decimalSeparator = (locale: string) =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value;
+
+// "1234.50", "1,234.50", "1.234,50" or "$ 95". Of two separators the last is the decimal
+// one, and a repeated separator groups thousands. A single separator followed by three
+// digits, as in "1.250", is read with the locale's decimal separator, or not at all
+// without one. Null when the cell is empty, NaN when it is not a number.
+const parseRate = (value: string, locale?: string) => {
+  const text = value.trim().replace(/[^\d.,-]/g, '');
+  if (!text) return value.trim() ? NaN : null;
+  const decimal = text.lastIndexOf('.') > text.lastIndexOf(',') ? '.' : ',';
+  const grouping = decimal === '.' ? ',' : '.';
+  let lone = !text.includes(grouping) && text.indexOf(decimal) !== text.lastIndexOf(decimal);
+  if (!text.includes(grouping) && !lone && /^-?[1-9]\d{0,2}[.,]\d{3}$/.test(text)) {
+    if (!locale) return NaN;
+    lone = decimalSeparator(locale) !== decimal;
+  }
+  const normalized = lone
+    ? text.split(decimal).join('')
+    : text.split(grouping).join('').replace(decimal, '.');
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+const isISODate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+export const parseTimesheet = (text: string, locale?: string): ParsedTimesheet => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { entries: [], errors: [{ line: 1, message: 'The file is empty.' }] };
+
+  const names = header.cells.map(cell => cell.trim().toLowerCase());
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_NAMES) as Column[]).map(column =>
+      [column, names.findIndex(name => COLUMN_NAMES[column].includes(name))])
+  ) as Record<Column, number>;
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] < 0);
+  if (missing.length > 0) {
+    return { entries: [], errors: [{ line: header.line, message: `Missing column: ${missing.join(', ')}.` }] };
+  }
+
+  const entries: TimesheetEntry[] = [];
+  const errors: TimesheetError[] = [];
+  const occurrences = new Map<string, number>();
+  rows.forEach(({ line, cells }) => {
+    const cell = (column: Column) => columns[column] < 0 ? '' : (cells[columns[column]] ?? '').trim();
+    const date = cell('date');
+    const hours = parseHours(cell('hours'));
+    if (!isISODate(date)) {
+      errors.push({ line, message: `"${date}" is not a date in YYYY-MM-DD format.` });
+      return;
+    }
+    if (isNaN(hours) || hours <= 0) {
+      errors.push({ line, message: `"${cell('hours')}" is not a number of hours.` });
+      return;
+    }
+    const rate = parseRate(cell('rate'), locale);
+    if (rate !== null && (isNaN(rate) || rate < 0)) {
+      errors.push({ line, message: `"${cell('rate')}" is not a rate.` });
+      return;
+    }
+    const entry = { date, project: cell('project'), task: cell('task'), person: cell('person'), hours, rate };
+    // Identical rows, such as two one-hour entries on the same task and day, are told apart
+    // by their position among the identical rows
+    const fingerprint = (['date', 'project', 'task', 'person', 'hours', 'rate'] as Column[]).map(cell).join('|');
+    const occurrence = (occurrences.get(fingerprint) ?? 0) + 1;
+    occurrences.set(fingerprint, occurrence);
+    entries.push({ ...entry, key: `${fingerprint}#${occurrence}`, line });
+  });
+  return { entries, errors };
+};
+
+const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+const groupKey = (entry: TimesheetEntry, grouping: TimesheetGrouping) => {
+  switch (grouping) {
+    case 'task': return `${entry.project}|${entry.task}`;
+    case 'person': return entry.person;
+    case 'day': return entry.date;
+  }
+};
+
+const describeGroup = (entries: TimesheetEntry[], grouping: TimesheetGrouping) => {
+  const dates = entries.map(entry => entry.date).sort();
+  const period = dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]} to ${dates[dates.length - 1]}`;
+  const tasks = unique(entries.map(entry => entry.task)).join(', ');
+  switch (grouping) {
+    case 'task':
+      return [unique([entries[0].project, entries[0].task]).join(': ') || 'Time', `(${period})`].join(' ');
+    case 'person':
+      return [entries[0].person || 'Unassigned', tasks && `– ${tasks}`, `(${period})`].filter(Boolean).join(' ');
+    case 'day':
+      return [dates[0], tasks && `– ${tasks}`].filter(Boolean).join(' ');
+  }
+};
+
+// One line per group and rate, since entries billed at different rates cannot share a line.
+// Entries without a rate of their own are billed at `defaultRate`. Hours are summed exactly
+// and only the line is rounded, so three entries of 1:20 bill as 4 hours.
+export const groupTimesheet = (
+  entries: TimesheetEntry[],
+  grouping: TimesheetGrouping,
+  defaultRate: number,
+  invoice: Pick<InvoiceData, 'currency' | 'rounding' | 'quantityPrecision'>
+): TimesheetLine[] => {
+  const groups = new Map<string, TimesheetEntry[]>();
+  entries.forEach(entry => {
+    const key = `${groupKey(entry, grouping)}|${entry.rate ?? defaultRate}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+  return [...groups.values()]
+    .sort((a, b) => a[0].date.localeCompare(b[0].date))
+    .map(group => {
+      const item: InvoiceItem = {
+        ...createEmptyItem(),
+        description: describeGroup(group, grouping),
+        quantity: roundQuantity(toNumber(sum(group.map(entry => toDecimal(entry.hours)))), invoice.quantityPrecision),
+        rate: group[0].rate ?? defaultRate,
+        unit: UNIT
+      };
+      return { item: { ...item, amount: calculateItemAmount(item, invoice) }, entryKeys: group.map(entry => entry.key) };
+    });
+};
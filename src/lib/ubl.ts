@@ -0,0 +1,123 @@
+import { formatAmount, formatPercent, formatPrice, type EInvoice, type EInvoiceParty, type EInvoiceVat } from '@/lib/e-invoice';
+import { el, renderXml } from '@/lib/xml';
+
+// UBL 2.1 syntax for the EN 16931 model, following Peppol BIS Billing 3.0. Invoices use the
+// Invoice-2 schema and credit notes the CreditNote-2 schema; element order follows the XSDs.
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+const NAMESPACES = {
+  'xmlns:cac': 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  'xmlns:cbc': 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2'
+};
+
+const ROOT_NAMESPACES = {
+  invoice: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  'credit-note': 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2'
+};
+
+const taxCategory = (name: string, vat: EInvoiceVat, exemptionReason = '') => el(name,
+  el('cbc:ID', vat.category),
+  el('cbc:Percent', formatPercent(vat.rate)),
+  el('cbc:TaxExemptionReason', exemptionReason),
+  el('cac:TaxScheme', el('cbc:ID', 'VAT'))
+);
+
+const party = (value: EInvoiceParty) => el('cac:Party',
+  value.endpoint && el('cbc:EndpointID', { schemeID: value.endpoint.scheme }, value.endpoint.id),
+  el('cac:PartyName', el('cbc:Name', value.name)),
+  el('cac:PostalAddress',
+    el('cbc:StreetName', value.address.lines[0]),
+    el('cbc:AdditionalStreetName', value.address.lines[1]),
+    el('cbc:CityName', value.address.city),
+    el('cbc:PostalZone', value.address.postalCode),
+    value.address.lines[2] && el('cac:AddressLine', el('cbc:Line', value.address.lines[2])),
+    el('cac:Country', el('cbc:IdentificationCode', value.address.countryCode))
+  ),
+  value.vatId && el('cac:PartyTaxScheme',
+    el('cbc:CompanyID', value.vatId),
+    el('cac:TaxScheme', el('cbc:ID', 'VAT'))
+  ),
+  el('cac:PartyLegalEntity',
+    el('cbc:RegistrationName', value.name),
+    el('cbc:CompanyID', value.registrationId)
+  ),
+  el('cac:Contact',
+    el('cbc:Name', value.contactName),
+    el('cbc:Telephone', value.phone),
+    el('cbc:ElectronicMail', value.email)
+  )
+);
+
+export const renderUbl = (model: EInvoice) => {
+  const isCreditNote = model.documentType === 'credit-note';
+  const { currency, totals } = model;
+  const amount = (name: string, value: number) => el(name, { currencyID: currency }, formatAmount(value, currency));
+
+  return renderXml(el(isCreditNote ? 'CreditNote' : 'Invoice', { xmlns: ROOT_NAMESPACES[model.documentType], ...NAMESPACES },
+    el('cbc:CustomizationID', CUSTOMIZATION_ID),
+    el('cbc:ProfileID', PROFILE_ID),
+    el('cbc:ID', model.number),
+    el('cbc:IssueDate', model.issueDate),
+    !isCreditNote && el('cbc:DueDate', model.dueDate),
+    el(isCreditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', model.typeCode),
+    el('cbc:Note', model.note),
+    el('cbc:DocumentCurrencyCode', currency),
+    el('cbc:BuyerReference', model.buyerReference),
+    el('cac:BillingReference', el('cac:InvoiceDocumentReference', el('cbc:ID', model.precedingInvoice))),
+    el('cac:AccountingSupplierParty', party(model.seller)),
+    el('cac:AccountingCustomerParty', party(model.buyer)),
+    model.payment && el('cac:PaymentMeans',
+      el('cbc:PaymentMeansCode', model.payment.meansCode),
+      // The 2.1 credit note has no DueDate of its own; Peppol carries it here instead
+      isCreditNote && el('cbc:PaymentDueDate', model.dueDate),
+      el('cbc:PaymentID', model.payment.reference),
+      el('cac:PayeeFinancialAccount',
+        el('cbc:ID', model.payment.account),
+        el('cbc:Name', model.payment.accountName),
+        el('cac:FinancialInstitutionBranch', el('cbc:ID', model.payment.bic))
+      )
+    ),
+    el('cac:PaymentTerms', el('cbc:Note', model.paymentTerms)),
+    model.allowancesCharges.map(entry => el('cac:AllowanceCharge',
+      el('cbc:ChargeIndicator', String(entry.charge)),
+      el('cbc:AllowanceChargeReason', entry.reason),
+      amount('cbc:Amount', entry.amount),
+      taxCategory('cac:TaxCategory', entry.vat)
+    )),
+    el('cac:TaxTotal',
+      amount('cbc:TaxAmount', totals.tax),
+      model.vatBreakdown.map(row => el('cac:TaxSubtotal',
+        amount('cbc:TaxableAmount', row.taxable),
+        amount('cbc:TaxAmount', row.tax),
+        taxCategory('cac:TaxCategory', row.vat, row.exemptionReason)
+      ))
+    ),
+    el('cac:LegalMonetaryTotal',
+      amount('cbc:LineExtensionAmount', totals.lineTotal),
+      amount('cbc:TaxExclusiveAmount', totals.taxExclusive),
+      amount('cbc:TaxInclusiveAmount', totals.taxInclusive),
+      totals.allowanceTotal !== 0 && amount('cbc:AllowanceTotalAmount', totals.allowanceTotal),
+      totals.chargeTotal !== 0 && amount('cbc:ChargeTotalAmount', totals.chargeTotal),
+      totals.prepaid !== 0 && amount('cbc:PrepaidAmount', totals.prepaid),
+      totals.rounding !== 0 && amount('cbc:PayableRoundingAmount', totals.rounding),
+      amount('cbc:PayableAmount', totals.payable)
+    ),
+    model.lines.map(line => el(isCreditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine',
+      el('cbc:ID', line.id),
+      el(isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', { unitCode: line.unitCode }, String(line.quantity)),
+      amount('cbc:LineExtensionAmount', line.netAmount),
+      line.allowance !== 0 && el('cac:AllowanceCharge',
+        el('cbc:ChargeIndicator', 'false'),
+        el('cbc:AllowanceChargeReason', 'Discount'),
+        amount('cbc:Amount', line.allowance)
+      ),
+      el('cac:Item',
+        el('cbc:Name', line.name),
+        taxCategory('cac:ClassifiedTaxCategory', line.vat)
+      ),
+      el('cac:Price', el('cbc:PriceAmount', { currencyID: currency }, formatPrice(line.price, currency)))
+    ))
+  ));
+};
@@ -0,0 +1,48 @@
+import { round, toDecimal, toNumber } from '@/lib/money';
+
+// Line quantities may be fractional, e.g. 2.5 hours or 0.75 kg. Each invoice sets how many
+// decimal places its quantities keep, and a line may name its unit of measure: one of the
+// presets or any other text.
+
+export const UNIT_PRESETS = ['hours', 'days', 'pcs', 'kg', 'km'];
+
+export const DEFAULT_QUANTITY_PRECISION = 2;
+export const MAX_QUANTITY_PRECISION = 4;
+
+export const roundQuantity = (quantity: number, precision: number) =>
+  toNumber(round(toDecimal(quantity), precision, 'half-up'));
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// Trailing zeros are dropped, so 2.50 prints as 2.5 and 3.00 as 3. Quantities use the same
+// locale as the amounts beside them, and grouping spaces are made PDF-safe as in formatMoney.
+export const formatQuantity = (quantity: number, precision: number, locale?: string) => {
+  const key = `${locale || ''}:${precision}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { maximumFractionDigits: precision });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(quantity).replace(/\u202f/g, '\u00a0');
+};
+
+// UN/ECE Recommendation 20 codes for the presets, as e-invoices require. Custom units are
+// sent as C62 ("one").
+const UNIT_CODES: Record<string, string> = {
+  hours: 'HUR',
+  days: 'DAY',
+  pcs: 'H87',
+  kg: 'KGM',
+  km: 'KMT'
+};
+
+export const DEFAULT_UNIT_CODE = 'C62';
+
+export const getUnitCode = (unit?: string) => (unit && UNIT_CODES[unit.trim().toLowerCase()]) || DEFAULT_UNIT_CODE;
+
+export const isStandardUnit = (unit?: string) => !unit || unit.trim().toLowerCase() in UNIT_CODES;
+
+// The preset a received code stands for; C62 and other generic counts carry no unit
+export const getUnitForCode = (code: string) =>
+  Object.keys(UNIT_CODES).find(unit => UNIT_CODES[unit] === code.toUpperCase());
+
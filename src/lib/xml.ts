@@ -0,0 +1,70 @@
+// A minimal XML writer for the e-invoice formats. Elements are built as a tree and printed
+// with two-space indentation; empty elements are dropped so callers can map optional fields
+// without guarding each one.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  required?: boolean; // printed even when empty
+}
+
+export type XmlNode = XmlElement | string;
+
+type Child = XmlNode | number | null | undefined | false | Child[];
+
+type Attributes = Record<string, string | undefined>;
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const isAttributes = (value: unknown): value is Attributes =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !('name' in value && 'children' in value);
+
+const flatten = (children: Child[]): XmlNode[] => children.flatMap(child => {
+  if (Array.isArray(child)) return flatten(child);
+  if (child === null || child === undefined || child === false) return [];
+  if (typeof child === 'number') return [String(child)];
+  if (typeof child === 'string') return child === '' ? [] : [child];
+  return child.children.length === 0 && !child.required ? [] : [child];
+});
+
+// el('cbc:ID', { schemeID: '0088' }, '123') or el('cac:Party', el(...), el(...)); the first
+// argument after the name is taken as attributes when it is a plain object
+export const el = (name: string, ...args: (Child | Attributes)[]): XmlElement => {
+  const hasAttributes = args.length > 0 && isAttributes(args[0]);
+  const attributes = hasAttributes ? args[0] as Attributes : {};
+  const children = (hasAttributes ? args.slice(1) : args) as Child[];
+  return {
+    name,
+    attributes: Object.fromEntries(
+      Object.entries(attributes).filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+    ),
+    children: flatten(children)
+  };
+};
+
+// Elements some schemas require even when they have nothing to say, e.g. an empty delivery
+export const required = (element: XmlElement): XmlElement => ({ ...element, required: true });
+
+const render = (element: XmlElement, depth: number): string => {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.entries(element.attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  if (element.children.length === 0) return `${indent}<${element.name}${attributes}/>`;
+  if (element.children.every(child => typeof child === 'string')) {
+    return `${indent}<${element.name}${attributes}>${escapeXml(element.children.join(''))}</${element.name}>`;
+  }
+  const children = element.children
+    .map(child => typeof child === 'string' ? `${indent}  ${escapeXml(child)}` : render(child, depth + 1))
+    .join('\n');
+  return `${indent}<${element.name}${attributes}>\n${children}\n${indent}</${element.name}>`;
+};
+
+export const renderXml = (root: XmlElement) => `<?xml version="1.0" encoding="UTF-8"?>\n${render(root, 0)}\n`;
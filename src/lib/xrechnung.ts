@@ -0,0 +1,53 @@
+import { renderCii } from '@/lib/cii';
+import { createIssueList, WHERE_TO_SET, type EInvoice, type EInvoiceIssue, type PartyRole } from '@/lib/e-invoice';
+
+// XRechnung, the German CIUS of EN 16931 that public-sector buyers require. It is written in
+// the CII syntax under its own specification identifier and adds the BR-DE rules: a buyer
+// reference (the Leitweg-ID for public bodies), a reachable seller contact and full addresses.
+
+const XRECHNUNG_GUIDELINE = 'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0';
+
+// Coarse address, optional fine address and check digits, e.g. 991-12345-67 or 04011000-1234512345-06
+const LEITWEG_ID = /^\d{2,12}(-[A-Z0-9]{1,30})?-\d{2}$/i;
+
+export const renderXRechnung = (model: EInvoice) => renderCii(model, 'en16931', XRECHNUNG_GUIDELINE);
+
+export const validateXRechnung = (model: EInvoice): EInvoiceIssue[] => {
+  const { issues, error, warn } = createIssueList();
+
+  if (!model.buyerReference) {
+    error('Buyer reference (BT-10)', 'BR-DE-15', "Enter the client's Leitweg-ID, or for businesses their order reference.");
+  } else if (!LEITWEG_ID.test(model.buyerReference)) {
+    warn(
+      'Buyer reference (BT-10)',
+      'BR-DE-15',
+      `"${model.buyerReference}" is not a Leitweg-ID. Public-sector clients reject invoices without one; businesses may accept other references.`
+    );
+  }
+
+  const seller = model.seller;
+  if (!seller.contactName) error('Seller contact (BT-41)', 'BR-DE-5', `A contact person is required. ${WHERE_TO_SET.Seller}`);
+  if (!seller.phone) error('Seller contact phone (BT-42)', 'BR-DE-6', `A contact phone number is required. ${WHERE_TO_SET.Seller}`);
+  if (!seller.email) error('Seller contact email (BT-43)', 'BR-DE-7', `A contact email address is required. ${WHERE_TO_SET.Seller}`);
+
+  const checkAddress = (role: PartyRole, rules: { city: string; postalCode: string }) => {
+    const { address } = role === 'Seller' ? model.seller : model.buyer;
+    if (!address.city) error(`${role} city`, rules.city, `The address needs a city. ${WHERE_TO_SET[role]}`);
+    if (!address.postalCode) {
+      error(`${role} postcode`, rules.postalCode, `The address needs a postcode, written before or after the city. ${WHERE_TO_SET[role]}`);
+    }
+  };
+  checkAddress('Seller', { city: 'BR-DE-3', postalCode: 'BR-DE-4' });
+  checkAddress('Buyer', { city: 'BR-DE-8', postalCode: 'BR-DE-9' });
+
+  if (!model.seller.endpoint) {
+    error('Seller electronic address (BT-34)', 'XRechnung 3.0', `Enter a participant ID or an email address. ${WHERE_TO_SET.Seller}`);
+  }
+  if (!model.buyer.endpoint) {
+    error('Buyer electronic address (BT-49)', 'XRechnung 3.0', `Enter a participant ID or an email address. ${WHERE_TO_SET.Buyer}`);
+  }
+  if (model.documentType === 'invoice' && !model.payment) {
+    error('Payment instructions (BG-16)', 'BR-DE-1', 'XRechnung requires payment instructions. Set your bank account in Settings → Business Profile.');
+  }
+  return issues;
+};